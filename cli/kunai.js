@@ -8,6 +8,7 @@
  *   kunai                           # Start interactive CLI
  *   kunai --encrypted               # Start with encryption
  *   kunai --channel=my-room         # Use custom channel
+ *   kunai receive <code>            # Fetch one file by its code and exit
  *   kunai --help                    # Show help
  */
 
@@ -2,13 +2,14 @@
  * Kunai (苦無) - Ephemeral File Transfer CLI
  * 
  * Fast, temporary P2P file transfers using Yumi/Yari for signaling.
- * Files are streamed directly without GunDB persistence.
+ * Chunks pass through GunDB and are removed once delivered or expired.
  * 
  * Kunai = ninja throwing knife - quick, precise, ephemeral
  * 
  * Run this with: 
  *   node client/kunai.js [options]
  *   node client/kunai.js --encrypted --channel=my-room
+ *   node client/kunai.js receive <code> [options]   # Fetch one file and exit
  */
 
 import { Kunai } from '../dist/index.js';
@@ -70,7 +71,7 @@ function addTransferRecord(type, transferId, filename, size, status, timestamp =
   saveTransferHistory();
 }
 
-async function sendFileCommand(kunai, filepath) {
+async function sendFileCommand(kunai, filepath, recipients, open) {
   try {
     if (!fs.existsSync(filepath)) {
       console.log('❌ File not found:', filepath);
@@ -78,27 +79,34 @@ async function sendFileCommand(kunai, filepath) {
     }
 
     const stats = fs.statSync(filepath);
-    if (!stats.isFile()) {
-      console.log('❌ Path is not a file:', filepath);
+    const isDirectory = stats.isDirectory();
+    if (!stats.isFile() && !isDirectory) {
+      console.log('❌ Path is not a file or directory:', filepath);
       return;
     }
 
-    const filename = path.basename(filepath);
-    const buffer = fs.readFileSync(filepath);
+    const filename = path.basename(path.resolve(filepath));
 
     console.log('\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
-    console.log('📤 Sending File');
+    console.log(isDirectory ? '📤 Sending Directory' : '📤 Sending File');
     console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
-    console.log('File:', filename);
-    console.log('Size:', formatSize(stats.size));
+    console.log(isDirectory ? 'Directory:' : 'File:', filename);
+    if (!isDirectory) {
+      console.log('Size:', formatSize(stats.size));
+    }
+    if (recipients) {
+      console.log('To:', recipients.map((address) => address.slice(0, 16) + '...').join(', '));
+    }
 
-    // sendFile is now async!
-    const code = await kunai.sendFile(
-      { name: filename, size: stats.size },
-      buffer
-    );
+    // Read from disk chunk by chunk, the file is never loaded whole
+    const code = isDirectory
+      ? await kunai.sendDirectory(filepath, { recipients, open })
+      : await kunai.sendFile(filepath, undefined, { recipients, open });
 
     console.log('\n🔑 Transfer code:', code);
+    if (!recipients && !open) {
+      console.log('   Share it privately: the receiver needs the whole code to get the file');
+    }
     console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n');
   } catch (error) {
     console.error('❌ Error sending file:', error.message);
@@ -109,12 +117,39 @@ async function sendFileCommand(kunai, filepath) {
 // Parse CLI Arguments
 // ============================================================================
 
-const args = process.argv.slice(2);
+let args = process.argv.slice(2);
+
+// One-shot mode: `kunai receive <code>` fetches a single file and exits
+let receiveCode = null;
+if (args[0] === 'receive') {
+  receiveCode = args[1];
+  if (!receiveCode || receiveCode.startsWith('-')) {
+    console.log('Usage: kunai receive <code> [--encrypted] [--channel=<name>]');
+    process.exit(1);
+  }
+  args = args.slice(2);
+}
+
 const encrypted = args.includes('--encrypted') || args.includes('-e');
 const localOnly = args.includes('--local') || args.includes('-l');
+const legacyTransfers = args.includes('--legacy');
+const autoAccept = args.includes('--auto-accept');
+const compression = args.includes('--compress');
+const webrtc = args.includes('--webrtc');
+const reshare = args.includes('--reshare');
 const channelArg = args.find(arg => arg.startsWith('--channel='))?.split('=')[1];
 const identifier = channelArg || args.find(arg => !arg.startsWith('-')) || 'kunai-transfer';
 
+// Direct transfers need an RTCPeerConnection implementation in Node (npm install @roamhq/wrtc)
+let rtcPeerConnection;
+if (webrtc) {
+  try {
+    rtcPeerConnection = (await import('@roamhq/wrtc')).default.RTCPeerConnection;
+  } catch (error) {
+    console.log('⚠️ --webrtc needs the @roamhq/wrtc package, sending through GunDB');
+  }
+}
+
 // ============================================================================
 // Initialize Kunai
 // ============================================================================
@@ -125,6 +160,14 @@ const kunai = new Kunai(identifier, {
   localOnly: localOnly,
   encrypted: encrypted,
   channel: channelArg,
+  legacyTransfers: legacyTransfers,
+  autoAccept: autoAccept,
+  compression: compression, // Deflate chunks of files we send (receivers decompress them)
+  webrtc: !!rtcPeerConnection, // Send files over direct data channels, GunDB only as fallback
+  rtcPeerConnection: rtcPeerConnection,
+  reshare: reshare, // Serve files we receive to other receivers on the channel
+  downloadDir: './received', // Received files are streamed straight to disk
+  stateDir: './.kunai-state', // Resume interrupted transfers after a restart
   ws: true,
   rtc: {
     iceServers: [
@@ -170,6 +213,26 @@ kunai.on('ready', () => {
   console.log('Address:', kunai.address().slice(0, 24) + '...\n');
 });
 
+if (receiveCode) {
+  receiveByCode(receiveCode)
+    .then((ok) => {
+      kunai.destroy(() => process.exit(ok ? 0 : 1));
+    });
+}
+
+async function receiveByCode(code) {
+  console.log(`📥 Waiting for transfer ${code.split('-')[0]}...`);
+  try {
+    // The file-received handler below reports and records the file
+    await kunai.receiveFile(code);
+    return true;
+  } catch (error) {
+    console.error('❌ Cannot receive file:', error.message);
+    addTransferRecord('received', code.split('-')[0], 'unknown', 0, 'failed');
+    return false;
+  }
+}
+
 kunai.on('connections', (count) => {
   if (count > 0) {
     console.log(`🔗 Connections: ${count} peer(s)`);
@@ -190,17 +253,27 @@ kunai.on('transfer-started', (transferId) => {
   console.log('✅ Transfer started:', transferId);
 });
 
-kunai.on('send-progress', (progress) => {
-  process.stdout.write(`\r📤 Sending: ${progress.percent}% (${progress.sent}/${progress.total} chunks)`);
+kunai.on('progress', (info) => {
+  const direction = info.status === 'receiving' ? '📥 Receiving' : '📤 Sending';
+  const eta = info.eta !== undefined ? `, ${info.eta}s left` : '';
+  process.stdout.write(`\r${direction}: ${info.progress ?? '?'}% (${info.chunksDone}/${info.chunks || '?'} chunks, ${formatSize(info.rate || 0)}/s${eta})`);
 });
 
 kunai.on('transfer-complete', (transferId) => {
-  console.log('\n\n🏁 Transfer complete!\n');
-  // Find the transfer info to record it
-  const transfer = kunai.transfers?.get(transferId);
-  if (transfer) {
-    addTransferRecord('sent', transferId, transfer.file?.name || 'unknown', transfer.file?.size || 0, 'completed');
-  }
+  console.log(`\n\n🏁 Upload of ${transferId} complete, waiting for receivers\n`);
+});
+
+kunai.on('delivered', (info, peer) => {
+  console.log(`\n📬 ${info.filename} delivered to ${peer.slice(0, 16)}...`);
+  addTransferRecord('sent', info.transferId, info.filename, info.size, 'completed');
+});
+
+kunai.on('chunk-missing', (info, missing) => {
+  console.log(`\n🔄 ${info.filename}: ${missing.length} missing chunks resent`);
+});
+
+kunai.on('retransmit', (info, { peer, chunks }) => {
+  console.log(`\n🔁 ${info.filename}: resent ${chunks.length} chunks to ${peer.slice(0, 16)}...`);
 });
 
 kunai.on('file-offer', (offer) => {
@@ -212,23 +285,51 @@ kunai.on('file-offer', (offer) => {
   console.log('Size:', formatSize(offer.size));
   console.log('Code:', offer.transferId);
   console.log('Chunks:', offer.chunks);
+  if (offer.files) {
+    console.log(`Directory: ${offer.files.length} files`);
+  }
   if (encrypted) {
     console.log('🔐 Encrypted: YES');
   }
   console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n');
-  console.log('✅ Auto-accepting transfer...\n');
+  if (autoAccept) {
+    console.log('✅ Auto-accepting transfer...\n');
+  } else {
+    console.log(`👉 Type "accept ${offer.transferId}" or "reject ${offer.transferId}"\n`);
+  }
+  rl.prompt();
 });
 
-kunai.on('receive-progress', (progress) => {
-  process.stdout.write(`\r📥 Receiving: ${progress.percent}% (${progress.received}/${progress.total} chunks)`);
+kunai.on('offer-accepted', ({ transferId, address }) => {
+  console.log(`\n✅ ${address.slice(0, 16)}... accepted ${transferId}`);
 });
 
-kunai.on('transfer-accepted', (transferId) => {
-  console.log(`\n✅ Transfer ${transferId} accepted, starting download...`);
+kunai.on('offer-rejected', ({ transferId, address }) => {
+  console.log(`\n🚫 ${address.slice(0, 16)}... rejected ${transferId}`);
 });
 
-kunai.on('transfer-started', (transferId) => {
-  console.log(`\n🚀 Transfer ${transferId} started!`);
+kunai.on('transfer-cancelled', ({ transferId, by, peer }) => {
+  if (by === 'peer') {
+    console.log(`\n🛑 ${peer.slice(0, 16)}... cancelled ${transferId}`);
+  } else {
+    console.log(`\n🛑 Transfer ${transferId} cancelled`);
+  }
+  const info = kunai.getTransfer(transferId);
+  if (info && info.status === 'cancelled') {
+    addTransferRecord(info.direction === 'outgoing' ? 'sent' : 'received', transferId, info.filename, info.size, 'cancelled');
+  }
+});
+
+kunai.on('transfer-paused', ({ transferId, by, peer }) => {
+  console.log(`\n⏸️ Transfer ${transferId} paused${by === 'peer' ? ` by ${peer.slice(0, 16)}...` : ''}`);
+});
+
+kunai.on('transfer-resumed', ({ transferId, by, peer }) => {
+  console.log(`\n▶️ Transfer ${transferId} resumed${by === 'peer' ? ` by ${peer.slice(0, 16)}...` : ''}`);
+});
+
+kunai.on('transfer-accepted', (transferId) => {
+  console.log(`\n✅ Transfer ${transferId} accepted, starting download...`);
 });
 
 kunai.on('file-received', (result) => {
@@ -238,20 +339,25 @@ kunai.on('file-received', (result) => {
     fs.mkdirSync(receivedDir, { recursive: true });
   }
 
-  const outputPath = path.join(receivedDir, result.filename);
+  const outputPath = result.path || path.join(receivedDir, result.filename);
 
   try {
-    // Handle both old format (result.buffer) and new GunDB format (result.data)
-    const fileData = result.data || result.buffer;
-    if (!fileData) {
-      throw new Error('No file data received');
+    // With downloadDir the file is already on disk, otherwise write the received data
+    if (!result.path) {
+      const fileData = result.data || result.buffer;
+      if (!fileData) {
+        throw new Error('No file data received');
+      }
+
+      fs.writeFileSync(outputPath, Buffer.from(fileData));
     }
-    
-    fs.writeFileSync(outputPath, Buffer.from(fileData));
 
     console.log('\n\n✅ File received successfully!');
     console.log('📁 Saved to:', outputPath);
     console.log('📊 Size:', formatSize(result.size), '\n');
+    if (result.files) {
+      console.log(`📁 ${result.files.length} files`);
+    }
     
     // Record successful receive
     addTransferRecord('received', result.fileId || result.transferId, result.filename, result.size, 'completed');
@@ -286,9 +392,9 @@ kunai.on('error', (error) => {
 kunai.on('transfer-timeout', (transferId) => {
   console.log(`\n⏰ Transfer ${transferId} timed out`);
   // Record timeout
-  const transfer = kunai.transfers?.get(transferId);
-  if (transfer) {
-    addTransferRecord('sent', transferId, transfer.file?.name || 'unknown', transfer.file?.size || 0, 'timeout');
+  const info = kunai.getTransfer(transferId);
+  if (info) {
+    addTransferRecord(info.direction === 'outgoing' ? 'sent' : 'received', transferId, info.filename, info.size, 'timeout');
   }
 });
 
@@ -312,10 +418,16 @@ const rl = readline.createInterface({
 });
 
 setTimeout(() => {
+  if (receiveCode) return;
   console.log("📝 Commands:");
-  console.log("  send <filepath>    - Send a file");
+  console.log("  send <filepath>    - Send a file or directory (add --to=<address>,... to send only to those peers,");
+  console.log("                       --open to offer it to everyone on the channel without a secret code)");
   console.log("  msg <message>      - Send a text message");
-  console.log("  receive            - Listen for incoming transfers");
+  console.log("  receive [code]     - List incoming offers, or fetch a file by its code");
+  console.log("  accept <code>      - Accept an offered file, or fetch a file by its secret code");
+  console.log("  reject <code>      - Reject an offered file");
+  console.log("  pause <id>         - Pause a transfer (resume <id> to continue)");
+  console.log("  cancel <id>        - Cancel a transfer");
   console.log("  check              - Check for existing files");
   console.log("  status             - Show active transfers and connections");
   console.log("  history            - Show transfer history");
@@ -324,9 +436,13 @@ setTimeout(() => {
   console.log("  Channel:", channelArg || identifier);
   console.log("  Encryption:", encrypted ? '🔐 ENABLED (Yari)' : '❌ Disabled (Yumi)');
   console.log("  Network:", localOnly ? '🏠 LAN Only (AXE)' : '🌐 Internet + LAN');
+  console.log("  Compression:", compression ? '🗜️ ENABLED' : '❌ Disabled');
+  console.log("  Direct (WebRTC):", rtcPeerConnection ? '📡 ENABLED' : '❌ Disabled');
+  console.log("  Resharing:", reshare ? '🌱 ENABLED' : '❌ Disabled');
   console.log("\n💡 Restart with options:");
   console.log("  node client/kunai.js --encrypted");
   console.log("  node client/kunai.js --local");
+  console.log("  node client/kunai.js --compress");
   console.log("  node client/kunai.js --channel=my-team --encrypted --local");
   console.log("");
   rl.prompt();
@@ -339,11 +455,15 @@ rl.on('line', async (line) => {
 
   try {
     if (cmd === 'send') {
-      const filepath = args.join(' ');
+      // send <filepath> [--to=<address>,<address>] [--open]
+      const toArg = args.find(arg => arg.startsWith('--to='));
+      const recipients = toArg ? toArg.slice('--to='.length).split(',').filter(Boolean) : undefined;
+      const open = args.includes('--open');
+      const filepath = args.filter(arg => arg !== toArg && arg !== '--open').join(' ');
       if (!filepath) {
-        console.log("Usage: send <filepath>");
+        console.log("Usage: send <filepath> [--to=<address>,...] [--open]");
       } else {
-        await sendFileCommand(kunai, filepath);
+        await sendFileCommand(kunai, filepath, recipients, open);
       }
     } else if (cmd === 'msg' || cmd === 'message') {
       const message = args.join(' ');
@@ -366,9 +486,51 @@ rl.on('line', async (line) => {
           console.error("❌ Error sending message:", error.message);
         }
       }
+  } else if (cmd === 'receive' && args[0]) {
+    // Runs in the background, the prompt stays usable
+    receiveByCode(args[0]);
   } else if (cmd === 'receive') {
     console.log("✅ Listening for transfers...");
-    console.log("Transfers are auto-accepted when offered.");
+    if (autoAccept) {
+      console.log("Transfers are auto-accepted when offered.");
+    } else {
+      const offers = kunai.offers();
+      if (offers.length === 0) {
+        console.log("No pending offers. Accept offered files with: accept <code>");
+      }
+      offers.forEach((offer) => {
+        console.log(`📥 ${offer.filename} (${formatSize(offer.size)}) - ${offer.transferId}`);
+      });
+    }
+  } else if (cmd === 'accept') {
+    if (!args[0]) {
+      console.log("Usage: accept <code>");
+    } else if (args[0].includes('-')) {
+      // Full code of a code-protected transfer: check it with the sender first
+      const offer = await kunai.redeem(args[0]);
+      if (kunai.offers().some((pending) => pending.transferId === offer.transferId)) {
+        kunai.accept(offer.transferId);
+      }
+    } else {
+      kunai.accept(args[0]);
+    }
+  } else if (cmd === 'reject') {
+    if (!args[0]) {
+      console.log("Usage: reject <code>");
+    } else {
+      kunai.reject(args[0]);
+      console.log("🚫 Transfer rejected");
+    }
+  } else if (cmd === 'cancel' || cmd === 'pause' || cmd === 'resume') {
+    if (!args[0]) {
+      console.log(`Usage: ${cmd} <id>`);
+    } else {
+      // The transfer id is the number at the start of a code
+      const transferId = args[0].split('-')[0];
+      if (cmd === 'cancel') kunai.cancelTransfer(transferId);
+      else if (cmd === 'pause') kunai.pauseTransfer(transferId);
+      else kunai.resumeTransfer(transferId);
+    }
   } else if (cmd === 'check') {
     try {
       kunai.checkExistingFiles();
@@ -387,6 +549,14 @@ rl.on('line', async (line) => {
       console.log("Channel:", channelArg || identifier);
       console.log("Mode:", encrypted ? '🔐 Encrypted (Yari)' : '🏹 Plain (Yumi)');
       console.log("Network:", localOnly ? '🏠 LAN Only' : '🌐 Internet + LAN');
+      const active = kunai.transfers().filter((info) => !info.finishedAt);
+      console.log("Transfers:", active.length === 0 ? 'none in progress' : '');
+      active.forEach((info) => {
+        const typeIcon = info.direction === 'outgoing' ? '📤' : '📥';
+        const progress = info.progress !== undefined ? ` ${info.progress}%` : '';
+        const rate = info.rate ? `, ${formatSize(info.rate)}/s` : '';
+        console.log(`  ${typeIcon} ${info.transferId} ${info.filename} (${formatSize(info.size)}) - ${info.status}${progress}${rate}`);
+      });
       console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n");
     } else if (cmd === 'history') {
       console.log("\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
@@ -397,7 +567,8 @@ rl.on('line', async (line) => {
       } else {
         transferHistory.slice(-10).reverse().forEach((record, index) => {
           const statusIcon = record.status === 'completed' ? '✅' : 
-                           record.status === 'failed' ? '❌' : '⏰';
+                           record.status === 'failed' ? '❌' :
+                           record.status === 'cancelled' ? '🛑' : '⏰';
           const typeIcon = record.type === 'sent' ? '📤' : '📥';
           const time = new Date(record.timestamp).toLocaleString();
           console.log(`${statusIcon} ${typeIcon} ${record.filename} (${formatSize(record.size)}) - ${record.transferId} - ${time}`);
@@ -422,7 +593,10 @@ rl.on('line', async (line) => {
 });
 
 rl.on('close', () => {
-  process.emit('SIGINT');
+  // In one-shot mode stdin may be closed from the start, exit when the file is done instead
+  if (!receiveCode) {
+    process.emit('SIGINT');
+  }
 });
 
 // Handle graceful shutdown
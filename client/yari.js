@@ -63,7 +63,7 @@ yari.events.on('newPeer', (peers) => {
       type: "encrypted-hello",
       text: "Hello from " + yari.address.slice(0, 8),
       timestamp: Date.now()
-    });
+    }).catch((e) => console.error("❌ Not sent:", e.message));
   }, 1000);
 });
 
@@ -132,8 +132,10 @@ rl.on('line', (line) => {
         text: message,
         from: yari.address.slice(0, 8),
         timestamp: Date.now()
-      });
-      console.log("✓ Encrypted message sent");
+      }).then(
+        () => console.log("✓ Encrypted message sent"),
+        (e) => console.error("❌ Not sent:", e.message)
+      );
     } else if (cmd === 'peers') {
       const peers = Object.keys(yari.peers);
       console.log("🔑 Peers with exchanged keys:", peers.length);
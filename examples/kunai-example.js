@@ -44,10 +44,11 @@ async function sendFile(kunai, filepath) {
     console.log('File:', filename);
     console.log('Size:', formatSize(stats.size));
 
-    // sendOffer is now async!
-    const code = await kunai.sendOffer(
+    // Offered to everyone on the channel: without `open` the file would wait for its code
+    const code = await kunai.sendFile(
       { name: filename, size: stats.size },
-      buffer
+      buffer,
+      { open: true }
     );
 
     console.log('\n🔑 Transfer code:', code);
@@ -77,6 +78,7 @@ const kunai = new Kunai(channel || 'kunai-example', {
   ],
   heartbeat: 15000,
   radisk: false,
+  autoAccept: true,      // Download offered files without accept()
   encrypted: encrypted,  // Enable E2E encryption with Yari
   channel: channel       // Custom channel
 });
@@ -147,7 +149,7 @@ kunai.on('file-received', (result) => {
   const outputPath = `${receivedDir}/${result.filename}`;
   
   try {
-    fs.writeFileSync(outputPath, Buffer.from(result.buffer));
+    fs.writeFileSync(outputPath, Buffer.from(result.data));
     
     console.log('\n\n✅ File received successfully!');
     console.log('📁 Saved to:', outputPath);
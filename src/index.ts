@@ -4,8 +4,10 @@
  */
 
 export { Yumi } from './yumi.js';
-export { Yari } from './yari.js';
+export { Yari, YariError } from './yari.js';
+export type { YariErrorCode } from './yari.js';
 export { Kunai } from './kunai.js';
+export type { KunaiOptions, SendOptions, ReceiveOptions, ReceivedFile, FileOffer, TransferInfo, TransferStatus, KunaiEvents, KunaiSource, KunaiDestination } from './kunai.js';
 export * from './types.js';
 
 // Default exports
@@ -9,585 +9,4142 @@
 import { Yumi } from './yumi.js';
 import { Yari } from './yari.js';
 import { YumiOptions } from './types.js';
+import { toBuffer, toString, toHex, fromHex, toBase64, fromBase64, toGun85, fromGun85 } from './utils.js';
 import { EventEmitter } from 'events';
+import nacl from 'tweetnacl';
+import bs58 from 'bs58';
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
 
-const CHUNK_SIZE = 10000; // 16KB chunks for GunDB compatibility
-const CLEANUP_DELAY = 5000; // 5 seconds
+const CHUNK_SIZE = 8192; // Raw bytes per chunk, about 10KB once encoded for GunDB
+const CLEANUP_DELAY = 5000; // Wait before removing a delivered transfer from GunDB, for late readers
+const TRANSFER_EXPIRY = 60 * 60 * 1000; // Transfers are removed from GunDB after an hour
+const EXPIRY_GRACE = 10 * 60 * 1000; // Receivers remove transfers left behind this long after they expired
 const TRANSFER_TIMEOUT = 1 * 10 * 1000; // 10 second
+const HASH_LENGTH = 32; // bytes of SHA-512 kept for chunk hashes and Merkle nodes
+const STREAM_CACHE_CHUNKS = 500; // Raw chunks kept for retransmission when sending a non-seekable stream
+const STATE_SAVE_INTERVAL = 1000; // Persist receive progress at most once per second
+const CODE_WORDS = 4; // Secret words in a transfer code (8 bits each with the default list)
+const NAMEPLATE_RANGE = 100000; // Transfer ids (the public part of a code) are 0-99999
+const PAKE_MAX_ATTEMPTS = 10; // Code exchanges allowed per transfer, each one is a single online guess
+const RECEIVE_TIMEOUT = 60 * 1000; // receiveFile(): max wait for the transfer to show up, or between chunks
+const PROGRESS_INTERVAL = 250; // Emit `progress` at most every 250ms per transfer
+const TRANSFER_HISTORY = 60 * 60 * 1000; // Finished transfers stay in transfers() for an hour
+const BUNDLE_TYPE = 'application/x-kunai-directory'; // MIME type of directory transfers
+const COMPRESSION = 'deflate-raw'; // Chunk compression advertised in the metadata of compressed transfers
+const FLOW_INITIAL_WINDOW = 4; // Chunks in flight before GunDB acknowledged any write
+const FLOW_MAX_WINDOW = 64; // Upper bound of chunks in flight
+const FLOW_BASE_DELAY = 5; // Pause between chunk writes (ms) when GunDB does not acknowledge writes
+const FLOW_MAX_DELAY = 250; // Longest pause between chunk writes (ms) on a congested relay
+const FLOW_ACK_TIMEOUT = 2000; // A write not acknowledged within this (or 4x the round trip) counts as lost
+const ACK_INTERVAL = 1000; // Receivers report the chunks they have this often
+const ACK_WINDOW = 1024; // Chunks after the first missing one covered by an acknowledgement's bitmap
+const RETRANSMIT_BATCH = 32; // Most chunks resent in reply to one acknowledgement
+const DIRECT_TIMEOUT = 15000; // Receive through GunDB if no direct data channel opens within 15s
+const DIRECT_BUFFER = 1024 * 1024; // Bytes queued on a data channel before the sender waits for it to drain
+const ICE_GATHER_TIMEOUT = 3000; // Longest wait for ICE candidates, which travel with the offer/answer
+const ICE_SERVERS = [
+  { urls: 'stun:stun.l.google.com:19302' },
+  { urls: 'stun:stun.cloudflare.com:3478' },
+  { urls: 'stun:stun.services.mozilla.com' }
+];
+const STALL_GAPS = 20; // Receiver: a silence of this many average chunk gaps means the upload stalled
+const STALL_MIN = 3000; // ...but never less than 3s
+const STALL_INITIAL = 15000; // Stall timeout before chunk gaps were measured
+const CHUNK_ENCODING = 'gun85'; // Chunks are raw bytes in base85 (see toGun85); transfers without `encoding` use base64
+
+// Formats that are compressed already, not worth deflating again
+const COMPRESSED_TYPES = /^(image\/(jpeg|png|gif|webp|avif|heic)|video\/|audio\/|application\/(zip|gzip|x-gzip|x-bzip2|x-xz|x-7z-compressed|x-rar-compressed|zstd|pdf|epub\+zip))/;
+const COMPRESSED_EXTENSIONS = /\.(jpe?g|png|gif|webp|avif|heic|mp3|mp4|m4a|m4v|mkv|webm|mov|avi|ogg|opus|flac|aac|zip|gz|tgz|bz2|xz|7z|rar|zst|br|pdf|epub|docx|xlsx|pptx|jar|apk)$/i;
+
+// Default word list for transfer codes (256 words, no dashes)
+const DEFAULT_WORDS = [
+  'alpha', 'bravo', 'charlie', 'delta', 'echo', 'foxtrot', 'golf', 'hotel', 'india', 'juliet', 'kilo', 'lima',
+  'mike', 'november', 'oscar', 'papa', 'quebec', 'romeo', 'sierra', 'tango', 'uniform', 'victor', 'whiskey', 'xray',
+  'yankee', 'zulu', 'ninja', 'samurai', 'shogun', 'katana', 'sakura', 'tokyo', 'kyoto', 'osaka', 'nara', 'fuji',
+  'bamboo', 'lotus', 'tiger', 'dragon', 'crane', 'heron', 'falcon', 'raven', 'otter', 'badger', 'beaver', 'bison',
+  'camel', 'cobra', 'coyote', 'eagle', 'ferret', 'gecko', 'hippo', 'ibis', 'jackal', 'koala', 'lemur', 'llama',
+  'lynx', 'moose', 'newt', 'ocelot', 'panda', 'puma', 'quail', 'rhino', 'salmon', 'shark', 'sloth', 'swan',
+  'tapir', 'toad', 'trout', 'viper', 'walrus', 'wombat', 'yak', 'zebra', 'anchor', 'arrow', 'banner', 'basket',
+  'beacon', 'bell', 'bridge', 'candle', 'canyon', 'castle', 'cedar', 'chalk', 'cliff', 'cloud', 'comet', 'coral',
+  'crown', 'crystal', 'desert', 'diamond', 'dune', 'ember', 'engine', 'feather', 'fern', 'forest', 'fountain', 'garden',
+  'glacier', 'granite', 'harbor', 'hammer', 'harvest', 'island', 'ivory', 'jade', 'jungle', 'kettle', 'lagoon', 'lantern',
+  'lava', 'leaf', 'lemon', 'maple', 'marble', 'meadow', 'mirror', 'moon', 'mountain', 'nectar', 'ocean', 'olive',
+  'orchid', 'palace', 'pebble', 'pepper', 'pine', 'planet', 'plum', 'pocket', 'prism', 'quartz', 'quiver', 'rain',
+  'river', 'rocket', 'saddle', 'sand', 'sapphire', 'shadow', 'shell', 'silver', 'sky', 'snow', 'spark', 'spice',
+  'spring', 'star', 'stone', 'storm', 'summer', 'sun', 'thunder', 'timber', 'torch', 'tower', 'valley', 'velvet',
+  'violet', 'wagon', 'willow', 'wind', 'winter', 'wolf', 'yarrow', 'zephyr', 'acorn', 'amber', 'apple', 'atlas',
+  'autumn', 'bagel', 'biscuit', 'blossom', 'bolt', 'breeze', 'brook', 'cactus', 'cherry', 'cinder', 'clover', 'cocoa',
+  'copper', 'cotton', 'daisy', 'dawn', 'elm', 'fiber', 'flame', 'frost', 'galaxy', 'ginger', 'glow', 'gravel',
+  'hazel', 'honey', 'horizon', 'iris', 'jasmine', 'kernel', 'kite', 'ladder', 'lilac', 'linen', 'magnet', 'mango',
+  'meteor', 'mint', 'mist', 'nova', 'nutmeg', 'oak', 'onyx', 'opal', 'orbit', 'paddle', 'peach', 'pearl',
+  'pilot', 'pixel', 'poppy', 'puzzle', 'radar', 'raft', 'reef', 'ribbon', 'ridge', 'robin', 'ruby', 'saffron',
+  'sage', 'satin', 'scarlet', 'seed', 'sequoia', 'signal', 'slate', 'spruce', 'stream', 'sugar', 'tea', 'thistle',
+  'tulip', 'umber', 'vapor', 'walnut'
+];
 
 export interface KunaiOptions extends YumiOptions {
-  chunkSize?: number;
-  cleanupDelay?: number;
+  chunkSize?: number;   // Raw bytes per chunk (default: 8192)
+  cleanupDelay?: number; // Wait before removing a delivered transfer from GunDB (ms, default: 5000)
+  expiry?: number;      // Transfers are removed from GunDB, and ignored by receivers, after this long (ms, default: 1 hour)
   transferTimeout?: number;
   encrypted?: boolean;  // Use Yari for E2E encryption
   channel?: string;     // Custom channel (like identifier in Yumi/Yari)
+  legacyTransfers?: boolean; // Also read transfers from the pre-channel global `files`/`chunks` nodes
+  downloadDir?: string; // Stream received files to this directory (Node) instead of keeping them in memory
+  stateDir?: string;    // Persist transfer state here (Node) so transfers resume after a restart
+  autoAccept?: boolean; // Download every offered file without waiting for accept()
+  codeWords?: number;   // Secret words in transfer codes (default 4)
+  wordList?: string[];  // Words for transfer codes (default: 256 built-in words)
+  compression?: boolean; // Deflate chunks of the files we send (skipped for already-compressed formats)
+  // With `webrtc: true`, files travel over direct WebRTC data channels, GunDB only carries them
+  // for receivers that cannot connect directly
+  rtcPeerConnection?: typeof RTCPeerConnection; // Implementation where there is no global one (Node, e.g. from @roamhq/wrtc)
+  iceServers?: RTCIceServer[]; // STUN/TURN servers for direct connections (default: public STUN servers)
+  reshare?: boolean;    // Serve the chunks of files we receive to other receivers, while and after downloading
+}
+
+export interface SendOptions {
+  recipients?: string[]; // Yumi addresses allowed to receive the file, everyone on the channel if omitted
+  open?: boolean;        // Offer the file to everyone on the channel, without a secret code
+  signal?: AbortSignal;  // Cancel the transfer when aborted, like cancelTransfer()
+  compress?: boolean;    // Override the `compression` option for this file
+}
+
+export interface ReceiveOptions {
+  destination?: KunaiDestination | null; // File path (Node), Node Writable or web WritableStream; defaults to `downloadDir`, or memory
+  timeout?: number;                       // Give up if the transfer does not show up, or stalls, for this long (ms)
+  signal?: AbortSignal;                   // Cancel the transfer when aborted, like cancelTransfer()
+}
+
+export interface ReceivedFile {
+  fileId: string;
+  filename: string;
+  size: number;
+  data?: ArrayBuffer;   // File contents, when received in memory (the files of a directory one after the other)
+  path?: string;        // Where the file was written, when received to a file (the directory, for directories)
+  files?: BundleEntry[]; // Files of a directory transfer
 }
 
 export interface FileOffer {
   transferId: string;
+  from: string;         // Sender address
   filename: string;
   size: number;
-  chunks: number;
+  type?: string;
+  chunks: number;       // 0 while a streamed transfer's length is unknown
+  files?: BundleEntry[]; // Files of a directory transfer
+}
+
+/**
+ * A file of a directory transfer
+ */
+export interface BundleEntry {
+  path: string;         // Relative to the directory, with `/` separators
+  size: number;
+  mode: number;         // Permission bits
 }
 
+/**
+ * Status of a transfer: incoming ones are `waiting` for accept(), outgoing ones once uploaded, for receivers
+ */
+export type TransferStatus = 'waiting' | 'sending' | 'receiving' | 'paused' | 'complete' | 'failed' | 'cancelled' | 'rejected';
+
 export interface TransferInfo {
+  transferId: string;
+  direction: 'incoming' | 'outgoing';
+  peer?: string;        // Sender of an incoming file, latest receiver of an outgoing one
   filename: string;
-  size: number;
-  chunks: number;
-  status: 'waiting' | 'sending' | 'receiving' | 'complete';
-  progress?: number;
+  size: number;         // 0 while a streamed transfer's size is unknown
+  chunks: number;       // 0 while a streamed transfer's length is unknown
+  status: TransferStatus;
+  createdAt: number;    // Offered to us, or sending started
+  startedAt?: number;   // Chunks started flowing
+  updatedAt: number;
+  finishedAt?: number;  // Completed, failed, cancelled or rejected
+  progress?: number;    // Percent of the chunks sent or received
+  chunksDone?: number;  // Chunks sent or received so far
+  bytes?: number;       // Bytes sent or received so far
+  rate?: number;        // Average bytes per second since the transfer started
+  eta?: number;         // Seconds left, when the size is known
+  reason?: string;      // Why the transfer failed
 }
 
 /**
- * Kunai (苦無) - GunDB File Transfer
+ * Typed transfer events of Kunai (the others, like `file-received`, take plain objects)
  */
-export class Kunai extends EventEmitter {
-  private yumi: Yumi;
-  private yari: Yari | null = null;
-  private encrypted: boolean;
-  private channel: string;
-  private chunkSize: number;
-  private cleanupDelay: number;
-  private transferTimeout: number;
-  
-  // Chunk cache for retransmission
-  private chunkCache: Map<string, { chunks: Map<number, string>, metadata: any, timestamp: number }> = new Map();
-  private CACHE_RETENTION = 5 * 60 * 1000; // Keep chunks for 5 minutes
+export interface KunaiEvents {
+  'offer': (info: TransferInfo) => void;                                     // A verified file is offered to us
+  'progress': (info: TransferInfo) => void;                                  // Chunks were sent or received
+  'chunk-missing': (info: TransferInfo, missing: number[]) => void;          // Chunks the sender resends after our ack
+  'retransmit': (info: TransferInfo, request: { peer: string, chunks: number[] }) => void; // Chunks we resent to a receiver
+  'delivered': (info: TransferInfo, peer: string) => void;                   // A receiver confirmed it has our file
+  'failed': (info: TransferInfo) => void;                                    // See `info.reason`
+}
 
-  constructor(identifier?: string, opts?: KunaiOptions) {
-    super();
-    
-    // Default identifier or custom channel
-    this.channel = opts?.channel || identifier || 'kunai-transfer';
-    this.encrypted = opts?.encrypted || false;
-    this.chunkSize = opts?.chunkSize || CHUNK_SIZE;
-    this.cleanupDelay = opts?.cleanupDelay || CLEANUP_DELAY;
-    this.transferTimeout = opts?.transferTimeout || TRANSFER_TIMEOUT;
+/**
+ * Source of an outgoing stream: a Node Readable, a web ReadableStream or any async iterable of bytes
+ */
+export type KunaiSource = AsyncIterable<Uint8Array | string> | ReadableStream<Uint8Array>;
+
+/**
+ * Destination of an incoming file: a file path (Node), a Node Writable or a web WritableStream
+ */
+export type KunaiDestination = string | NodeJS.WritableStream | WritableStream<Uint8Array>;
+
+/**
+ * Random access to the raw bytes of an outgoing file
+ */
+interface ChunkReader {
+  totalChunks: number;
+  read(index: number): Promise<Uint8Array>;
+  close(): Promise<void>;
+}
+
+/**
+ * In-order writer for the bytes of an incoming file
+ */
+interface ChunkSink {
+  path?: string;
+  write(bytes: Uint8Array): Promise<void>;
+  close(): Promise<Uint8Array | null>; // Resolves with the file data for in-memory sinks
+  abort(): Promise<void>;
+}
+
+/**
+ * Receiver-side state of an incoming transfer
+ */
+interface IncomingTransfer {
+  fileId: string;
+  metadata: any;
+  root: any;
+  sink: ChunkSink;
+  files: BundleEntry[] | null;          // Manifest of a directory transfer
+  received: Set<number>;                // Chunk indices accepted so far
+  pending: Map<number, Uint8Array | string>; // Accepted chunks waiting for earlier ones to be written (base64 text in legacy transfers)
+  nextIndex: number;                    // Next chunk index to write to the sink
+  carry: string;                        // Base64 left over between legacy chunk boundaries
+  bytesWritten: number;                 // Bytes handed to the sink so far
+  writing: Promise<void>;               // Serialized sink writes, never rejects
+  writeError: Error | null;             // First failed write, later writes are skipped
+  unverifiedHashes: Map<number, string>; // Chunks accepted before a streamed transfer's manifest arrived
+  lastChunkAt: number;
+  chunkGap: number;                     // Smoothed time between chunks (ms), 0 until measured
+  info: TransferInfo;                   // Record in the transfer state machine
+  progressAt: number;                   // Last time progress was emitted
+  acking: boolean;                      // An acknowledgement waits for the sender's reply
+  completed: boolean;
+  paused: boolean;                      // Paused by pauseTransfer(), no chunks are collected
+  peerPaused: boolean;                  // The sender paused its upload, no acks meanwhile
+  savedAt: number;                      // Last time the progress was persisted
+  ackTimer: NodeJS.Timeout | null;      // Next acknowledgement to the sender
+  direct: RTCPeerConnection | null;     // Direct connection to the sender, while it is set up or used
+  chunkListener: any;
+  manifestListener: any;
+  seeders: Map<string, { have: number, busy: boolean, failures: number }>; // Other receivers serving chunks below `have`
+  requested: Set<number>;               // Chunks asked from seeders, not back yet
+  seedListener: any;
+}
+
+/**
+ * Control of a file we send, for cancelTransfer() and pauseTransfer()
+ */
+interface OutgoingTransfer {
+  fileId: string;
+  controller: AbortController;          // Aborted when the transfer is cancelled
+  paused: boolean;
+  resume: (() => void) | null;          // Wakes the paused upload loop up
+  peers: Set<string>;                   // Receivers to notify (accepted, or asked for chunks)
+  delivered: Set<string>;               // Receivers that confirmed the file
+  uploaded: boolean;                    // All chunks are in GunDB
+  written: number;                      // Chunks put to GunDB so far
+  startUpload: (() => void) | null;     // Starts the GunDB upload a direct transfer holds back
+  connections: Set<RTCPeerConnection>;  // Direct connections to receivers
+  acks: Map<string, { mark: number, checked: number }>; // Per receiver: chunks written at its last ack, and checked for gaps
+  flow: FlowControl;                    // Pacing of the upload
+  info: TransferInfo;                   // Record in the transfer state machine
+  progressAt: number;                   // Last time progress was emitted
+}
+
+/**
+ * Congestion window of an upload: chunk writes in flight grow while GunDB acknowledges
+ * them and halve when a write fails or goes unacknowledged (AIMD, like TCP)
+ */
+interface FlowControl {
+  window: number;                       // Writes allowed in flight
+  threshold: number;                    // Window above which it grows by one per round trip instead of per ack
+  inFlight: number;                     // Writes not acknowledged yet
+  delay: number;                        // Pause between writes (ms)
+  rtt: number;                          // Smoothed write round trip (ms), 0 until measured
+  acks: number;                         // Writes acknowledged so far
+  unacknowledged: boolean;              // GunDB does not acknowledge writes here, pace with FLOW_BASE_DELAY
+  wake: (() => void) | null;            // Resolves the wait for a free slot
+}
+
+function createFlowControl(): FlowControl {
+  return {
+    window: FLOW_INITIAL_WINDOW,
+    threshold: FLOW_MAX_WINDOW,
+    inFlight: 0,
+    delay: FLOW_BASE_DELAY,
+    rtt: 0,
+    acks: 0,
+    unacknowledged: false,
+    wake: null
+  };
+}
+
+/**
+ * A write was acknowledged after `rtt` ms: open the window and shorten the pause
+ */
+function flowAcked(flow: FlowControl, rtt: number): void {
+  flow.acks++;
+  flow.rtt = flow.rtt ? flow.rtt * 0.875 + rtt * 0.125 : rtt;
+  flow.window = Math.min(FLOW_MAX_WINDOW, flow.window + (flow.window < flow.threshold ? 1 : 1 / flow.window));
+  flow.delay = Math.max(0, flow.delay - 1);
+}
+
+/**
+ * A write failed or timed out: halve the window and back off
+ */
+function flowLost(flow: FlowControl): void {
+  flow.threshold = Math.max(2, flow.window / 2);
+  flow.window = flow.threshold;
+  flow.delay = Math.min(FLOW_MAX_DELAY, flow.delay * 2 + FLOW_BASE_DELAY);
+}
+
+/**
+ * A file we receive or received, served to other receivers (see `reshare`)
+ */
+interface SeedEntry {
+  openReader: () => Promise<ChunkReader>;
+  fileKey: Uint8Array | null;
+  metadata: any;
+  hashes: string[];                     // Chunks are only served if they encode to these again
+  have: number;                         // We hold every chunk below this index
+  timestamp: number;                    // Last time we gained or served chunks
+}
+
+/**
+ * Status changes allowed by the transfer state machine (staying in the same status always is)
+ */
+const TRANSFER_TRANSITIONS: Record<TransferStatus, TransferStatus[]> = {
+  waiting: ['sending', 'receiving', 'paused', 'complete', 'failed', 'cancelled', 'rejected'],
+  sending: ['waiting', 'paused', 'complete', 'failed', 'cancelled'],
+  receiving: ['paused', 'complete', 'failed', 'cancelled'],
+  paused: ['sending', 'receiving', 'waiting', 'complete', 'failed', 'cancelled'],
+  complete: [],
+  failed: [],
+  cancelled: [],
+  rejected: []
+};
+
+/**
+ * Fill in the progress, rate and ETA of a transfer from the chunks and bytes done so far
+ */
+function measureProgress(info: TransferInfo, chunksDone: number, bytes: number): void {
+  const now = Date.now();
+  const elapsed = (now - (info.startedAt ?? info.createdAt)) / 1000;
+  info.updatedAt = now;
+  info.chunksDone = chunksDone;
+  info.bytes = bytes;
+  info.rate = elapsed > 0 ? Math.round(bytes / elapsed) : 0;
+  info.progress = info.chunks > 0 ? Math.min(100, Math.round((chunksDone / info.chunks) * 100)) : undefined;
+  info.eta = info.size > 0 && info.rate > 0 ? Math.max(0, Math.ceil((info.size - bytes) / info.rate)) : undefined;
+}
+
+/**
+ * Wait while a transfer we send is paused (an upload and direct streams may wait at once)
+ */
+async function holdWhilePaused(control: OutgoingTransfer): Promise<void> {
+  while (control.paused && !control.controller.signal.aborted) {
+    await new Promise<void>((resolve) => {
+      const previous = control.resume;
+      control.resume = () => {
+        previous?.();
+        resolve();
+      };
+    });
+  }
+}
+
+/**
+ * Wait until a connection gathered its ICE candidates: they travel with the offer or answer, no trickling
+ */
+function iceGathered(connection: RTCPeerConnection): Promise<void> {
+  if (connection.iceGatheringState === 'complete') return Promise.resolve();
+
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      connection.removeEventListener('icegatheringstatechange', check);
+      resolve();
+    };
+    const check = () => {
+      if (connection.iceGatheringState === 'complete') done();
+    };
+    const timer = setTimeout(done, ICE_GATHER_TIMEOUT);
+    connection.addEventListener('icegatheringstatechange', check);
+  });
+}
+
+/**
+ * Wait until a data channel is open, returns false if it closed first
+ */
+function channelOpened(channel: RTCDataChannel): Promise<boolean> {
+  if (channel.readyState === 'open') return Promise.resolve(true);
+
+  return new Promise((resolve) => {
+    channel.addEventListener('open', () => resolve(true), { once: true });
+    channel.addEventListener('close', () => resolve(false), { once: true });
+  });
+}
+
+/**
+ * Wait until the send buffer of a data channel drained below its low threshold (or it closed)
+ */
+function channelDrained(channel: RTCDataChannel): Promise<void> {
+  return new Promise((resolve) => {
+    channel.addEventListener('bufferedamountlow', () => resolve(), { once: true });
+    channel.addEventListener('close', () => resolve(), { once: true });
+  });
+}
+
+/**
+ * Acknowledgement of the chunks received so far: every chunk below `base` is in,
+ * `bitmap` has a bit for each of the ACK_WINDOW chunks from `base` on
+ */
+function ackWindow(received: Set<number>, from: number): { base: number, bitmap: string } {
+  let base = from;
+  while (received.has(base)) base++;
+
+  const bits = new Uint8Array(ACK_WINDOW / 8);
+  for (let i = 1; i < ACK_WINDOW; i++) {
+    if (received.has(base + i)) bits[i >> 3] |= 1 << (i & 7);
+  }
+  return { base, bitmap: toBase64(toBuffer(bits)) };
+}
+
+/**
+ * Whether a bitmap from a peer is the base64 of ACK_WINDOW bits, as ackWindow() makes it
+ * (browsers' atob() throws on anything else)
+ */
+function isAckBitmap(bitmap: unknown): bitmap is string {
+  return typeof bitmap === 'string' && bitmap.length === Math.ceil(ACK_WINDOW / 24) * 4 && /^[A-Za-z0-9+/]+={0,2}$/.test(bitmap);
+}
+
+/**
+ * Chunks below `mark` that an acknowledgement reports missing
+ */
+function ackGaps(base: number, bitmap: string, mark: number): number[] {
+  const bits = new Uint8Array(fromBase64(bitmap));
+  const gaps: number[] = [];
+  for (let i = 0; i < ACK_WINDOW && base + i < mark; i++) {
+    if (!(bits[i >> 3] & (1 << (i & 7)))) gaps.push(base + i);
+  }
+  return gaps;
+}
+
+/**
+ * How long an incoming transfer may go without chunks before it counts as stalled,
+ * from the pace observed so far
+ */
+function stallTimeout(transfer: IncomingTransfer): number {
+  if (!transfer.chunkGap) return STALL_INITIAL;
+  return Math.min(STALL_INITIAL * 4, Math.max(STALL_MIN, transfer.chunkGap * STALL_GAPS));
+}
+
+/**
+ * Error of cancelled transfers, named like the DOM's so callers can tell it from failures
+ */
+function abortError(): Error {
+  const error = new Error('Transfer cancelled');
+  error.name = 'AbortError';
+  return error;
+}
+
+/**
+ * Encrypt bytes with a per-transfer key (nonce is prepended to the ciphertext)
+ */
+function sealData(data: Uint8Array, key: Uint8Array, nonce?: Uint8Array): string {
+  nonce = nonce || nacl.randomBytes(nacl.secretbox.nonceLength);
+  const box = nacl.secretbox(data, nonce, key);
+  const sealed = new Uint8Array(nonce.length + box.length);
+  sealed.set(nonce);
+  sealed.set(box, nonce.length);
+  return toBase64(toBuffer(sealed));
+}
+
+/**
+ * Decrypt data produced by sealData, returns null if it was tampered with
+ */
+function openData(sealed: string, key: Uint8Array): Uint8Array | null {
+  try {
+    const bytes = new Uint8Array(fromBase64(sealed));
+    const nonce = bytes.subarray(0, nacl.secretbox.nonceLength);
+    const box = bytes.subarray(nacl.secretbox.nonceLength);
+    return nacl.secretbox.open(box, nonce, key);
+  } catch (e) {
+    return null;
+  }
+}
+
+/**
+ * Nonce for chunk `index`: the key is unique per transfer, so sealing is deterministic
+ * and a chunk can be re-encoded from the source for retransmission
+ */
+function chunkNonce(index: number): Uint8Array {
+  const nonce = new Uint8Array(nacl.secretbox.nonceLength);
+  new DataView(nonce.buffer).setFloat64(nonce.length - 8, index);
+  return nonce;
+}
+
+/**
+ * How the chunks of a transfer are stored, as advertised in its metadata
+ */
+interface ChunkFormat {
+  encoding?: string;
+  compression?: string;
+}
+
+/**
+ * Encode raw chunk bytes as they are stored in GunDB
+ */
+function encodeChunk(bytes: Uint8Array, key: Uint8Array | null, index: number, format: ChunkFormat): string {
+  const packed = format.compression ? packChunk(bytes) : bytes;
+  if (format.encoding === CHUNK_ENCODING) {
+    // The nonce follows from the index, so it is not stored with the chunk
+    return toGun85(key ? nacl.secretbox(packed, chunkNonce(index), key) : packed);
+  }
+
+  // Legacy transfers: base64, sealed as text
+  const base64 = toBase64(toBuffer(packed));
+  return key ? sealData(toBuffer(base64), key, chunkNonce(index)) : base64;
+}
+
+/**
+ * Decode a chunk stored by encodeChunk: raw bytes, or the base64 text of a legacy transfer.
+ * Returns null if it cannot be decoded or decrypted.
+ */
+function decodeChunk(data: string, key: Uint8Array | null, index: number, format: ChunkFormat): Uint8Array | string | null {
+  if (format.encoding === CHUNK_ENCODING) {
+    let bytes: Uint8Array;
+    try {
+      bytes = fromGun85(data);
+    } catch (e) {
+      return null;
+    }
+    return key ? nacl.secretbox.open(bytes, chunkNonce(index), key) : bytes;
+  }
+
+  if (!key) return data;
+  const plain = openData(data, key);
+  return plain ? toString(plain) : null;
+}
+
+/**
+ * Deflate a chunk of a compressed transfer. The first byte tells whether the body is deflated (1) or,
+ * when that would not make it smaller, raw (0); it is covered by the chunk hash like the body.
+ */
+function packChunk(bytes: Uint8Array): Uint8Array {
+  const deflated = zlib.deflateRawSync(bytes);
+  const body = deflated.length < bytes.length ? deflated : bytes;
+  const packed = new Uint8Array(body.length + 1);
+  packed[0] = body === deflated ? 1 : 0;
+  packed.set(body, 1);
+  return packed;
+}
+
+/**
+ * Raw bytes of a chunk of a compressed transfer
+ * @param maxBytes Chunk size from the metadata, so a chunk cannot inflate beyond it
+ */
+function unpackChunk(packed: Uint8Array, maxBytes: number): Uint8Array {
+  const body = packed.subarray(1);
+  if (packed[0] === 0) return body;
+  if (packed[0] !== 1) throw new Error('Unknown chunk encoding');
+
+  const bytes = zlib.inflateRawSync(body, { maxOutputLength: maxBytes });
+  if (bytes.length > maxBytes) throw new Error('Chunk inflates beyond the chunk size');
+  return new Uint8Array(bytes.buffer, bytes.byteOffset, bytes.length);
+}
+
+/**
+ * Whether a file is in a format that is compressed already (by MIME type or extension)
+ */
+function isCompressedFormat(file: { name: string; type?: string }): boolean {
+  return COMPRESSED_TYPES.test(file.type || '') || COMPRESSED_EXTENSIONS.test(file.name);
+}
+
+/**
+ * Hash bytes for chunk and Merkle tree hashing
+ */
+function hashData(data: Uint8Array): Uint8Array {
+  return nacl.hash(data).slice(0, HASH_LENGTH);
+}
+
+/**
+ * Hash a chunk payload exactly as it is stored in GunDB
+ */
+function hashChunk(data: string): string {
+  return toHex(hashData(toBuffer(data)));
+}
+
+/**
+ * Compute the Merkle root of a list of hex chunk hashes (odd nodes are promoted)
+ */
+function merkleRoot(hashes: string[]): string {
+  if (hashes.length === 0) return toHex(hashData(new Uint8Array(0)));
+
+  let level: Uint8Array[] = hashes.map((hash) => new Uint8Array(fromHex(hash)));
+  while (level.length > 1) {
+    const next: Uint8Array[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      if (i + 1 === level.length) {
+        next.push(level[i]);
+        continue;
+      }
+      const pair = new Uint8Array(HASH_LENGTH * 2);
+      pair.set(level[i]);
+      pair.set(level[i + 1], HASH_LENGTH);
+      next.push(hashData(pair));
+    }
+    level = next;
+  }
+  return toHex(level[0]);
+}
+
+/**
+ * Split the concatenated chunk hash list stored in metadata (GunDB has no arrays)
+ */
+function splitHashes(chunkHashes: string): string[] {
+  const hashes: string[] = [];
+  for (let i = 0; i < chunkHashes.length; i += HASH_LENGTH * 2) {
+    hashes.push(chunkHashes.slice(i, i + HASH_LENGTH * 2));
+  }
+  return hashes;
+}
+
+/**
+ * Bytes covered by the sender's metadata signature
+ */
+function integrityPayload(fileId: string, metadata: any): Uint8Array {
+  return toBuffer(JSON.stringify([
+    fileId,
+    metadata.sender,
+    metadata.timestamp,
+    metadata.totalChunks ?? null,
+    metadata.chunkBytes ?? null,
+    metadata.merkleRoot ?? null,
+    metadata.name ?? null,
+    metadata.type ?? null,
+    metadata.size ?? null,
+    metadata.info ?? null,
+    metadata.recipients ?? null,
+    metadata.ek ?? null,
+    metadata.pake ?? null,
+    // Not present in every transfer, so signatures of older ones are unchanged
+    ...(metadata.files ? [metadata.files] : []),
+    ...(metadata.compression ? [['compression', metadata.compression]] : []),
+    ...(metadata.encoding ? [['encoding', metadata.encoding]] : []),
+    ...(metadata.direct ? [['direct', true]] : []),
+    ...(metadata.expiresAt ? [['expiresAt', metadata.expiresAt]] : [])
+  ]));
+}
+
+/**
+ * Reason this client cannot read a transfer's chunks, or null if it can
+ */
+function unsupportedFormat(metadata: any): string | null {
+  if (metadata.compression && metadata.compression !== COMPRESSION) {
+    return 'Unsupported compression: ' + metadata.compression;
+  }
+  if (metadata.encoding && metadata.encoding !== CHUNK_ENCODING) {
+    return 'Unsupported chunk encoding: ' + metadata.encoding;
+  }
+  return null;
+}
+
+/**
+ * Whether a transfer is past the expiry signed by its sender (transfers without one never expire)
+ */
+function isExpired(metadata: any, now = Date.now()): boolean {
+  return typeof metadata?.expiresAt === 'number' && now > metadata.expiresAt;
+}
+
+/**
+ * Proof that a receiver holds the key of a transfer, sent with the requests only receivers may make
+ */
+function receiverProof(key: Uint8Array, fileId: string, address: string): string {
+  const label = toBuffer('kunai-delivered:' + fileId + ':' + address);
+  const bytes = new Uint8Array(key.length + label.length);
+  bytes.set(key);
+  bytes.set(label, key.length);
+  return toHex(nacl.hash(bytes).slice(0, 32));
+}
+
+/**
+ * Uniform random integer in [0, max) from nacl's CSPRNG
+ */
+function randomInt(max: number): number {
+  const limit = Math.floor(0x100000000 / max) * max;
+  while (true) {
+    const bytes = nacl.randomBytes(4);
+    const value = new DataView(bytes.buffer, bytes.byteOffset, 4).getUint32(0);
+    if (value < limit) return value % max;
+  }
+}
+
+/**
+ * Split a transfer code into its transfer id and secret words (`<id>-<word>-<word>...`)
+ */
+function parseTransferCode(code: string): { fileId: string, secret: string | null } {
+  const parts = code.trim().toLowerCase().split('-').filter(Boolean);
+  return { fileId: parts[0] || '', secret: parts.length > 1 ? parts.slice(1).join('-') : null };
+}
+
+/**
+ * Keystream masking a PAKE public key, bound to the code, the transfer and the side that sends it
+ */
+function pakeMask(secret: string, fileId: string, role: 'sender' | 'receiver'): Uint8Array {
+  return nacl.hash(toBuffer(JSON.stringify(['kunai-pake', role, fileId, secret]))).slice(0, nacl.scalarMult.groupElementLength);
+}
+
+/**
+ * Encrypt an ephemeral X25519 public key with the code (EKE-style).
+ * X25519 ignores the top bit, so it is randomized: wrong guesses decode to keys as plausible as the right one.
+ */
+function pakeEncode(publicKey: Uint8Array, secret: string, fileId: string, role: 'sender' | 'receiver'): string {
+  const mask = pakeMask(secret, fileId, role);
+  const masked = new Uint8Array(publicKey.length);
+  for (let i = 0; i < publicKey.length; i++) {
+    masked[i] = publicKey[i] ^ mask[i];
+  }
+  masked[masked.length - 1] ^= nacl.randomBytes(1)[0] & 0x80;
+  return toHex(masked);
+}
+
+/**
+ * Decrypt a public key encoded by pakeEncode, returns null if the message is malformed
+ */
+function pakeDecode(message: string, secret: string, fileId: string, role: 'sender' | 'receiver'): Uint8Array | null {
+  if (typeof message !== 'string' || !/^[0-9a-f]{64}$/.test(message)) return null;
+
+  const masked = new Uint8Array(fromHex(message));
+  const mask = pakeMask(secret, fileId, role);
+  const publicKey = new Uint8Array(masked.length);
+  for (let i = 0; i < masked.length; i++) {
+    publicKey[i] = masked[i] ^ mask[i];
+  }
+  return publicKey;
+}
+
+/**
+ * Derive the PAKE session key from the X25519 shared secret and the exchanged messages
+ */
+function pakeSessionKey(shared: Uint8Array, secret: string, fileId: string, receiverMessage: string, senderMessage: string): Uint8Array | null {
+  // Low-order points give an all-zero shared secret
+  if (shared.every((byte) => byte === 0)) return null;
+
+  const transcript = toBuffer(JSON.stringify(['kunai-pake', fileId, secret, receiverMessage, senderMessage]));
+  const input = new Uint8Array(shared.length + transcript.length);
+  input.set(shared);
+  input.set(transcript, shared.length);
+  return nacl.hash(input).slice(0, nacl.secretbox.keyLength);
+}
+
+/**
+ * Box a transfer key for one recipient with Yumi's per-session encryption keys
+ */
+function boxKey(key: Uint8Array, recipientEk: string, secretKey: Uint8Array): string {
+  const nonce = nacl.randomBytes(nacl.box.nonceLength);
+  const box = nacl.box(key, nonce, new Uint8Array(bs58.decode(recipientEk)), secretKey);
+  const boxed = new Uint8Array(nonce.length + box.length);
+  boxed.set(nonce);
+  boxed.set(box, nonce.length);
+  return toBase64(toBuffer(boxed));
+}
+
+/**
+ * Open a transfer key boxed by boxKey, returns null if it was not boxed for us
+ */
+function openBoxedKey(boxed: string, senderEk: string, secretKey: Uint8Array): Uint8Array | null {
+  try {
+    const bytes = new Uint8Array(fromBase64(boxed));
+    const nonce = bytes.subarray(0, nacl.box.nonceLength);
+    const box = bytes.subarray(nacl.box.nonceLength);
+    return nacl.box.open(box, nonce, new Uint8Array(bs58.decode(senderEk)), secretKey);
+  } catch (e) {
+    return null;
+  }
+}
+
+/**
+ * Recipient address -> boxed key map of a targeted transfer (stored as JSON, GunDB has no nested arrays)
+ */
+function recipientKeys(metadata: any): { [address: string]: string } | null {
+  if (typeof metadata.recipients !== 'string') return null;
+  try {
+    return JSON.parse(metadata.recipients);
+  } catch (e) {
+    return null;
+  }
+}
+
+/**
+ * Read an in-memory file chunk by chunk
+ */
+function bufferReader(bytes: Uint8Array, chunkBytes: number): ChunkReader {
+  const totalChunks = Math.ceil(bytes.length / chunkBytes);
+  return {
+    totalChunks,
+    read: async (index: number) => {
+      if (index < 0 || index >= totalChunks) throw new Error('Chunk out of range: ' + index);
+      return bytes.subarray(index * chunkBytes, (index + 1) * chunkBytes);
+    },
+    close: async () => {}
+  };
+}
+
+/**
+ * Read a browser Blob/File chunk by chunk
+ */
+function blobReader(blob: Blob, chunkBytes: number): ChunkReader {
+  const totalChunks = Math.ceil(blob.size / chunkBytes);
+  return {
+    totalChunks,
+    read: async (index: number) => {
+      if (index < 0 || index >= totalChunks) throw new Error('Chunk out of range: ' + index);
+      const slice = blob.slice(index * chunkBytes, (index + 1) * chunkBytes);
+      return new Uint8Array(await slice.arrayBuffer());
+    },
+    close: async () => {}
+  };
+}
+
+/**
+ * Read a file from disk chunk by chunk (Node)
+ */
+async function fileReader(filePath: string, chunkBytes: number): Promise<ChunkReader> {
+  const handle = await fs.promises.open(filePath, 'r');
+  const { size } = await handle.stat();
+  const totalChunks = Math.ceil(size / chunkBytes);
+  return {
+    totalChunks,
+    read: async (index: number) => {
+      if (index < 0 || index >= totalChunks) throw new Error('Chunk out of range: ' + index);
+      const length = Math.min(chunkBytes, size - index * chunkBytes);
+      const buffer = new Uint8Array(length);
+      const { bytesRead } = await handle.read(buffer, 0, length, index * chunkBytes);
+      return buffer.subarray(0, bytesRead);
+    },
+    close: () => handle.close()
+  };
+}
+
+/**
+ * List the regular files under a directory in a stable order (symlinks and special files are skipped)
+ */
+async function listDirectory(root: string, prefix: string = ''): Promise<BundleEntry[]> {
+  const entries: BundleEntry[] = [];
+  const children = await fs.promises.readdir(path.join(root, prefix), { withFileTypes: true });
+  children.sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+
+  for (const child of children) {
+    const relative = prefix ? `${prefix}/${child.name}` : child.name;
+    if (child.isDirectory()) {
+      entries.push(...await listDirectory(root, relative));
+    } else if (child.isFile()) {
+      const stat = await fs.promises.stat(path.join(root, relative));
+      entries.push({ path: relative, size: stat.size, mode: stat.mode & 0o777 });
+    }
+  }
+  return entries;
+}
+
+/**
+ * Read the files of a directory chunk by chunk, as if they were one file (in manifest order)
+ */
+async function bundleReader(root: string, entries: BundleEntry[], chunkBytes: number): Promise<ChunkReader> {
+  const offsets: number[] = [];
+  let size = 0;
+  for (const entry of entries) {
+    offsets.push(size);
+    size += entry.size;
+  }
+  const totalChunks = Math.ceil(size / chunkBytes);
+  const handles = new Map<number, fs.promises.FileHandle>();
+
+  const open = async (i: number) => {
+    let handle = handles.get(i);
+    if (!handle) {
+      handle = await fs.promises.open(path.join(root, ...entries[i].path.split('/')), 'r');
+      handles.set(i, handle);
+    }
+    return handle;
+  };
+
+  return {
+    totalChunks,
+    read: async (index: number) => {
+      if (index < 0 || index >= totalChunks) throw new Error('Chunk out of range: ' + index);
+      const start = index * chunkBytes;
+      const buffer = new Uint8Array(Math.min(chunkBytes, size - start));
+
+      // Last file starting at or before the chunk, then fill from the following ones
+      let i = 0;
+      while (i + 1 < entries.length && offsets[i + 1] <= start) i++;
+      let filled = 0;
+      for (; filled < buffer.length && i < entries.length; i++) {
+        const from = start + filled - offsets[i];
+        const length = Math.min(entries[i].size - from, buffer.length - filled);
+        if (length <= 0) continue;
+        const { bytesRead } = await (await open(i)).read(buffer, filled, length, from);
+        if (bytesRead !== length) throw new Error('File changed while sending: ' + entries[i].path);
+        filled += length;
+      }
+      return buffer;
+    },
+    close: async () => {
+      for (const handle of handles.values()) {
+        await handle.close();
+      }
+      handles.clear();
+    }
+  };
+}
+
+/**
+ * Check the manifest of a directory transfer, returns null for single files.
+ * Entries are peer input: they must stay inside the destination and add up to the transfer size.
+ */
+function parseBundle(metadata: any): BundleEntry[] | null {
+  if (metadata.files === undefined || metadata.files === null) return null;
+
+  let entries: any;
+  try {
+    entries = JSON.parse(metadata.files);
+  } catch (e) {
+    throw new Error('Malformed directory manifest');
+  }
+  if (!Array.isArray(entries)) {
+    throw new Error('Malformed directory manifest');
+  }
+
+  const seen = new Set<string>();
+  let size = 0;
+  for (const entry of entries) {
+    if (!entry || typeof entry.path !== 'string' || !Number.isSafeInteger(entry.size) || entry.size < 0 ||
+        !Number.isInteger(entry.mode)) {
+      throw new Error('Malformed directory manifest');
+    }
+    // No absolute paths, drive letters, backslashes, `.`/`..` or empty segments
+    const segments = entry.path.split('/');
+    if (/[\\\0]|^[a-zA-Z]:/.test(entry.path) || segments.some((segment: string) => segment === '' || segment === '.' || segment === '..')) {
+      throw new Error('Unsafe path in directory manifest: ' + entry.path);
+    }
+    if (seen.has(entry.path)) {
+      throw new Error('Duplicate path in directory manifest: ' + entry.path);
+    }
+    seen.add(entry.path);
+    size += entry.size;
+  }
+  if (size !== metadata.size) {
+    throw new Error('Directory manifest does not match the transfer size');
+  }
+  return entries.map((entry: any) => ({ path: entry.path, size: entry.size, mode: entry.mode & 0o777 }));
+}
+
+/**
+ * Resolve a manifest path inside the destination directory, refusing anything that would escape it
+ */
+function bundlePath(root: string, entryPath: string): string {
+  const base = path.resolve(root);
+  const target = path.resolve(base, ...entryPath.split('/'));
+  if (!target.startsWith(base + path.sep)) {
+    throw new Error('Unsafe path in directory manifest: ' + entryPath);
+  }
+  return target;
+}
+
+/**
+ * A file name from a peer, if it is safe to use as is inside the download directory
+ */
+function safeFileName(name: unknown): string | null {
+  if (typeof name !== 'string') return null;
+  if (!name.trim() || name === '.' || name === '..' || /[\\/\0]/.test(name)) return null;
+  return name;
+}
+
+/**
+ * Whether `target` resolves strictly inside `dir`
+ */
+function isInside(dir: string, target: string): boolean {
+  const relative = path.relative(path.resolve(dir), path.resolve(target));
+  return !!relative && relative.split(path.sep)[0] !== '..' && !path.isAbsolute(relative);
+}
+
+/**
+ * Iterate the byte pieces of a stream source
+ */
+async function* readSource(source: KunaiSource): AsyncGenerator<Uint8Array> {
+  if (typeof (source as ReadableStream<Uint8Array>).getReader === 'function') {
+    const reader = (source as ReadableStream<Uint8Array>).getReader();
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) return;
+        yield value;
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  }
+
+  for await (const piece of source as AsyncIterable<Uint8Array | string>) {
+    yield typeof piece === 'string' ? new Uint8Array(toBuffer(piece)) : piece;
+  }
+}
+
+/**
+ * Re-slice a stream into chunks of exactly `chunkBytes` (the last one may be shorter)
+ */
+async function* rechunk(source: KunaiSource, chunkBytes: number): AsyncGenerator<Uint8Array> {
+  let parts: Uint8Array[] = [];
+  let length = 0;
+
+  const join = (): Uint8Array => {
+    if (parts.length === 1) return parts[0];
+    const joined = new Uint8Array(length);
+    let offset = 0;
+    for (const part of parts) {
+      joined.set(part, offset);
+      offset += part.length;
+    }
+    return joined;
+  };
+
+  for await (const piece of readSource(source)) {
+    if (piece.length === 0) continue;
+    parts.push(piece);
+    length += piece.length;
+
+    while (length >= chunkBytes) {
+      const joined = join();
+      yield joined.slice(0, chunkBytes);
+      const rest = joined.subarray(chunkBytes);
+      parts = rest.length > 0 ? [rest] : [];
+      length = rest.length;
+    }
+  }
+
+  if (length > 0) {
+    yield join().slice();
+  }
+}
+
+/**
+ * Collect an incoming file in memory
+ */
+function memorySink(): ChunkSink {
+  const parts: Uint8Array[] = [];
+  let length = 0;
+  return {
+    write: async (bytes: Uint8Array) => {
+      parts.push(bytes);
+      length += bytes.length;
+    },
+    close: async () => {
+      const data = new Uint8Array(length);
+      let offset = 0;
+      for (const part of parts) {
+        data.set(part, offset);
+        offset += part.length;
+      }
+      return data;
+    },
+    abort: async () => {
+      parts.length = 0;
+    }
+  };
+}
+
+/**
+ * Write an incoming file to a Node Writable (or a file, when `filePath` is given)
+ */
+function nodeStreamSink(stream: NodeJS.WritableStream, filePath?: string): ChunkSink {
+  let failure: Error | null = null;
+  stream.on('error', (error: Error) => {
+    failure = error;
+  });
+
+  return {
+    path: filePath,
+    write: (bytes: Uint8Array) => new Promise<void>((resolve, reject) => {
+      if (failure) {
+        reject(failure);
+        return;
+      }
+      const flushed = stream.write(toBuffer(bytes), (error?: Error | null) => {
+        if (error) reject(error);
+      });
+      if (flushed) {
+        resolve();
+      } else {
+        stream.once('drain', () => resolve());
+      }
+    }),
+    close: () => new Promise<Uint8Array | null>((resolve, reject) => {
+      if (failure) {
+        reject(failure);
+        return;
+      }
+      stream.end(() => resolve(null));
+    }),
+    abort: async () => {
+      (stream as any).destroy?.();
+      if (filePath) {
+        await fs.promises.unlink(filePath).catch(() => {});
+      }
+    }
+  };
+}
+
+/**
+ * Write an incoming file to a web WritableStream
+ */
+function webStreamSink(stream: WritableStream<Uint8Array>): ChunkSink {
+  const writer = stream.getWriter();
+  return {
+    write: (bytes: Uint8Array) => writer.write(bytes),
+    close: async () => {
+      await writer.close();
+      return null;
+    },
+    abort: () => writer.abort()
+  };
+}
+
+/**
+ * Split the incoming bytes of a directory transfer into its files, recreating the tree under `root`
+ */
+function bundleSink(root: string, entries: BundleEntry[]): ChunkSink {
+  const created: string[] = [];
+  let current = -1;
+  let handle: fs.promises.FileHandle | null = null;
+  let remaining = 0;
+
+  // Close the finished file and open the next one (files of size 0 are created on the way)
+  const advance = async () => {
+    while (remaining === 0 && current < entries.length) {
+      if (handle) {
+        await handle.close();
+        handle = null;
+        await fs.promises.chmod(created[created.length - 1], entries[current].mode);
+      }
+      current++;
+      if (current === entries.length) return;
+
+      const target = bundlePath(root, entries[current].path);
+      await fs.promises.mkdir(path.dirname(target), { recursive: true });
+      // Never replace a file, manifests listing one path twice included
+      handle = await fs.promises.open(target, 'wx').catch((error) => {
+        throw error.code === 'EEXIST' ? new Error('File already exists: ' + target) : error;
+      });
+      created.push(target);
+      remaining = entries[current].size;
+    }
+  };
+
+  return {
+    path: root,
+    write: async (bytes: Uint8Array) => {
+      let offset = 0;
+      while (offset < bytes.length) {
+        await advance();
+        if (!handle) throw new Error('More data than the directory manifest');
+        const length = Math.min(remaining, bytes.length - offset);
+        await handle.write(bytes, offset, length);
+        offset += length;
+        remaining -= length;
+      }
+    },
+    close: async () => {
+      await advance();
+      if (current < entries.length) throw new Error('Directory transfer is truncated');
+      return null;
+    },
+    abort: async () => {
+      if (handle) await handle.close().catch(() => {});
+      handle = null;
+      // Only the files we created, the directory may hold other files
+      for (const file of created) {
+        await fs.promises.unlink(file).catch(() => {});
+      }
+    }
+  };
+}
+
+/**
+ * Create the sink for an incoming file (in memory when no destination is given)
+ * @param resumeAt Bytes of a partial file to keep, when resuming a transfer into a file path
+ * @param files Manifest of a directory transfer, written as a tree when the destination is a path
+ */
+function createSink(destination?: KunaiDestination | null, resumeAt: number = 0, files: BundleEntry[] | null = null): ChunkSink {
+  if (!destination) return memorySink();
+  if (typeof destination === 'string' && files) {
+    return bundleSink(destination, files);
+  }
+  if (typeof destination === 'string') {
+    if (resumeAt > 0) {
+      fs.truncateSync(destination, resumeAt);
+      return nodeStreamSink(fs.createWriteStream(destination, { flags: 'r+', start: resumeAt }), destination);
+    }
+    return nodeStreamSink(fs.createWriteStream(destination), destination);
+  }
+  if (typeof (destination as WritableStream<Uint8Array>).getWriter === 'function') {
+    return webStreamSink(destination as WritableStream<Uint8Array>);
+  }
+  return nodeStreamSink(destination as NodeJS.WritableStream);
+}
+
+/**
+ * File holding the persisted state of a transfer (fileIds come from peers, so they are escaped)
+ */
+function statePath(stateDir: string, kind: 'incoming' | 'outgoing', fileId: string): string {
+  return path.join(stateDir, `${kind}-${encodeURIComponent(fileId)}.json`);
+}
+
+/**
+ * Read a persisted state file, returns null if it is missing or corrupt
+ */
+function readState(file: string): any | null {
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch (e) {
+    return null;
+  }
+}
+
+/**
+ * Write a state file atomically, so a crash never leaves a half-written one.
+ * Only we can read it: outgoing state holds transfer keys and codes.
+ */
+function writeState(file: string, state: any): void {
+  fs.writeFileSync(file + '.tmp', JSON.stringify(state), { mode: 0o600 });
+  fs.chmodSync(file + '.tmp', 0o600); // The mode only applies to new files, a leftover one keeps its own
+  fs.renameSync(file + '.tmp', file);
+}
+
+/**
+ * Delete a state file if it exists
+ */
+function removeState(file: string): void {
+  try {
+    fs.unlinkSync(file);
+  } catch (e) {
+    // Already gone
+  }
+}
+
+/**
+ * Typed listeners for the events in KunaiEvents
+ */
+export interface Kunai {
+  on<E extends keyof KunaiEvents>(event: E, listener: KunaiEvents[E]): this;
+  on(event: string | symbol, listener: (...args: any[]) => void): this;
+  once<E extends keyof KunaiEvents>(event: E, listener: KunaiEvents[E]): this;
+  once(event: string | symbol, listener: (...args: any[]) => void): this;
+  off<E extends keyof KunaiEvents>(event: E, listener: KunaiEvents[E]): this;
+  off(event: string | symbol, listener: (...args: any[]) => void): this;
+}
+
+/**
+ * Kunai (苦無) - GunDB File Transfer
+ */
+export class Kunai extends EventEmitter {
+  private yumi: Yumi;
+  private yari: Yari | null = null;
+  private encrypted: boolean;
+  private channel: string;
+  private chunkSize: number;
+  private cleanupDelay: number;
+  private expiry: number;
+  private transferTimeout: number;
+  private legacyTransfers: boolean;
+  private compression: boolean;
+  private peerConnection: typeof RTCPeerConnection | null; // Set when direct transfers are enabled
+  private iceServers: RTCIceServer[];
+  private reshare: boolean;
+  private downloadDir: string | null;
+  private stateDir: string | null;
+  private autoAccept: boolean;
+  private codeWords: number;
+  private wordList: string[];
+
+  // Sources of files we sent, for retransmission (chunks are re-read and re-encoded on request)
+  private chunkCache: Map<string, { openReader: () => Promise<ChunkReader>, fileKey: Uint8Array | null, metadata: any, timestamp: number, path?: string }> = new Map();
+  private seeds: Map<string, SeedEntry> = new Map(); // Files we serve as a receiver
+  private expiries: Map<string, number> = new Map(); // When the transfers we published leave GunDB
+  private CACHE_RETENTION = 5 * 60 * 1000; // Keep chunks for 5 minutes
+  private cleanupInterval: NodeJS.Timeout | null = null;
+
+  // Per-transfer symmetric keys (encrypted mode), for files we send and files we receive
+  private fileKeys: Map<string, { key: Uint8Array, sender: string, timestamp: number, recipients?: string[], code?: string, attempts?: number }> = new Map();
+
+  // Verified chunk hashes of incoming transfers
+  private chunkHashes: Map<string, string[]> = new Map();
+
+  // Transfers being received
+  private incoming: Map<string, IncomingTransfer> = new Map();
+
+  // Files we send that can be cancelled or paused
+  private outgoing: Map<string, OutgoingTransfer> = new Map();
+
+  // State of every transfer we send, receive or were offered, for transfers() and events
+  private transferStates: Map<string, TransferInfo> = new Map();
+
+  // Offers waiting for accept() or reject()
+  private pendingOffers: Map<string, { offer: FileOffer, metadata: any, root: any, timestamp: number }> = new Map();
+
+  // Code-protected transfers seen on the channel, waiting for redeem()
+  private lockedFiles: Map<string, { metadata: any, root: any, timestamp: number }> = new Map();
+
+  // Transfers being fetched by receiveFile(), ignored by the channel listeners
+  private claimedFiles: Set<string> = new Set();
+
+  constructor(identifier?: string, opts?: KunaiOptions) {
+    super();
+    
+    // Default identifier or custom channel
+    this.channel = opts?.channel || identifier || 'kunai-transfer';
+    this.encrypted = opts?.encrypted || false;
+    this.chunkSize = opts?.chunkSize || CHUNK_SIZE;
+    this.cleanupDelay = opts?.cleanupDelay ?? CLEANUP_DELAY;
+    this.expiry = opts?.expiry || TRANSFER_EXPIRY;
+    this.transferTimeout = opts?.transferTimeout || TRANSFER_TIMEOUT;
+    this.legacyTransfers = opts?.legacyTransfers || false;
+    this.compression = opts?.compression || false;
+    const peerConnection = opts?.rtcPeerConnection || (typeof RTCPeerConnection !== 'undefined' ? RTCPeerConnection : null);
+    this.peerConnection = opts?.webrtc ? peerConnection : null;
+    if (opts?.webrtc && !peerConnection) {
+      console.log('⚠️ WebRTC is not available here (pass rtcPeerConnection), files go through GunDB');
+    }
+    this.iceServers = opts?.iceServers || ICE_SERVERS;
+    this.reshare = opts?.reshare || false;
+    this.downloadDir = opts?.downloadDir || null;
+    this.stateDir = opts?.stateDir || null;
+    this.autoAccept = opts?.autoAccept || false;
+    this.codeWords = opts?.codeWords || CODE_WORDS;
+    this.wordList = opts?.wordList || DEFAULT_WORDS;
+    if (this.wordList.length < 2 || this.wordList.some((word) => !word || /[-\s]/.test(word))) {
+      throw new Error('Word list needs at least 2 words without dashes or spaces');
+    }
+
+    // Resumed transfers need the same address, so the Yumi seed is kept with the transfer state
+    let seedFile: string | null = null;
+    if (this.stateDir) {
+      fs.mkdirSync(this.stateDir, { recursive: true, mode: 0o700 });
+      seedFile = path.join(this.stateDir, 'kunai.seed');
+      if (!opts?.seed && fs.existsSync(seedFile)) {
+        opts = { ...opts, seed: fs.readFileSync(seedFile, 'utf8').trim() };
+      }
+    }
+
+    // Initialize Yumi or Yari based on encryption setting
+    if (this.encrypted) {
+      console.log('🔐 Kunai initialized with encryption (Yari)');
+      console.log('📡 Using channel:', this.channel);
+      // Peers check our SEA keys against the ones they saw, so they are kept with the seed too
+      const seaFile = this.stateDir ? path.join(this.stateDir, 'kunai.sea') : null;
+      const saved = seaFile ? readState(seaFile) : null;
+      const seedId = (seed: string) => toHex(nacl.hash(toBuffer('kunai-sea:' + seed)).slice(0, 16));
+      const sea = opts?.seed && saved?.seed === seedId(opts.seed) ? saved.sea : undefined;
+      this.yari = new Yari(this.channel, sea ? { ...opts, sea } : opts);
+      this.yumi = this.yari.yumi;
+      if (seaFile && !sea) {
+        const seed = seedId(this.yumi.seed);
+        this.yari.SEA().then(
+          (pair) => writeState(seaFile, { seed, sea: pair }),
+          (e) => console.error('❌ Cannot save SEA keys:', e)
+        );
+      }
+    } else {
+      console.log('🥷 Kunai initialized without encryption (Yumi)');
+      console.log('📡 Using channel:', this.channel);
+      this.yumi = new Yumi(this.channel, opts);
+    }
+
+    if (seedFile && !opts?.seed) {
+      fs.writeFileSync(seedFile, this.yumi.seed, { mode: 0o600 });
+    }
+
+    this.setupHandlers();
+    this.setupChunkRetransmission();
+    this.setupOfferDecisions();
+    this.setupTransferControl();
+    this.setupDirectTransfers();
+    this.setupCodeExchange();
+    if (this.yari) {
+      this.setupFileKeyExchange();
+    }
+    this.startCacheCleanup();
+    if (this.stateDir) {
+      this.restoreOutgoing();
+    }
+  }
+
+  private setupHandlers(): void {
+    this.yumi.on('ready', () => {
+      this.emit('ready');
+      
+      // Setup GunDB file transfer listeners, scoped to our channel
+      this.setupGunDBFileListeners(this.yumi.channel);
+
+      // Compat: older Kunai versions wrote transfers to the graph root
+      if (this.legacyTransfers) {
+        console.log('📦 Also listening for legacy global transfers');
+        this.setupGunDBFileListeners(this.yumi.gun);
+      }
+    });
+
+    this.yumi.on('connections', (count: number) => {
+      this.emit('connections', count);
+    });
+  }
+
+  /**
+   * Setup RPC handlers for chunk retransmission
+   */
+  private setupChunkRetransmission(): void {
+    // Receivers acknowledge the chunks they have, we resend the gaps in bounded batches
+    this.yumi.register('chunk-ack', async (address: string, args: any, callback: (result: any) => void) => {
+      const { fileId, base, bitmap, proof } = args || {};
+      if (!Number.isInteger(base) || base < 0 || !isAckBitmap(bitmap)) {
+        callback({ success: false, error: 'Malformed acknowledgement' });
+        return;
+      }
+
+      const cached = this.chunkCache.get(fileId);
+      if (!cached) {
+        callback({ success: false, error: 'File not in cache' });
+        return;
+      }
+
+      // Acknowledgements steer the upload (and shrink the window on losses), only receivers may send them
+      if (!this.mayReceive(fileId, address, proof)) {
+        console.log(`🚫 Ignoring acknowledgement for ${fileId} from ${address.slice(0, 12)}...`);
+        callback({ success: false, error: 'Not a receiver' });
+        return;
+      }
+
+      const control = this.outgoing.get(fileId);
+      let gaps: number[];
+      if (control) {
+        control.peers.add(address);
+        // The receiver gets no direct connection, it needs the chunks in GunDB
+        control.startUpload?.();
+        if (control.paused) {
+          callback({ success: false, error: 'Transfer paused' });
+          return;
+        }
+
+        // Only chunks written before this receiver's previous ack had time to arrive
+        const previous = control.acks.get(address) || { mark: 0, checked: 0 };
+        control.acks.set(address, { mark: control.written, checked: previous.mark });
+        gaps = ackGaps(base, bitmap, previous.mark);
+
+        // Chunks lost on the way mean the relay is congested
+        if (!control.uploaded && gaps.some((index) => index >= previous.checked)) {
+          flowLost(control.flow);
+        }
+      } else {
+        // Restored after a restart, every chunk was written long ago
+        gaps = ackGaps(base, bitmap, cached.metadata.totalChunks ?? 0);
+      }
+
+      if (gaps.length === 0) {
+        callback({ success: true, fileId, chunks: [], missing: 0, more: false });
+        return;
+      }
+
+      let chunks: { index: number, data: string }[];
+      try {
+        chunks = await this.readChunks(cached, gaps.slice(0, RETRANSMIT_BATCH));
+      } catch (error) {
+        console.log(`❌ Cannot read source of ${fileId}: ${(error as Error).message}`);
+        callback({ success: false, error: 'File source not available' });
+        return;
+      }
+
+      if (control && chunks.length > 0) {
+        this.emit('retransmit', { ...control.info }, { peer: address, chunks: chunks.map((chunk) => chunk.index) });
+      }
+      callback({
+        success: true,
+        fileId,
+        chunks,
+        missing: gaps.length,
+        more: gaps.length > RETRANSMIT_BATCH && chunks.length > 0
+      });
+    });
+
+    // Older receivers ask for all of their missing chunks at once
+    // Async: Yumi ignores the returned promise, so every error must go through `callback`
+    this.yumi.register('request-chunks', async (address: string, args: any, callback: (result: any) => void) => {
+      const { fileId, missingChunks, proof } = args || {};
+      if (!Array.isArray(missingChunks)) {
+        callback({ success: false, error: 'Invalid chunk request' });
+        return;
+      }
+      
+      console.log(`📨 Received request for ${missingChunks.length} missing chunks from ${address.slice(0, 12)}...`);
+      
+      // Receivers serve the files they got too (see `reshare`)
+      const seed = this.seeds.get(fileId);
+      const cached = this.chunkCache.get(fileId) || seed;
+      if (seed) seed.timestamp = Date.now();
+      if (!cached) {
+        console.log(`❌ No cached chunks for ${fileId}`);
+        callback({ success: false, error: 'File not in cache' });
+        return;
+      }
+
+      const total = cached.metadata?.totalChunks;
+      const valid = missingChunks.every((index: any) =>
+        Number.isInteger(index) && index >= 0 && (typeof total !== 'number' || index < total));
+      if (!valid) {
+        callback({ success: false, error: 'Invalid chunk index' });
+        return;
+      }
+
+      const control = this.outgoing.get(fileId);
+      control?.peers.add(address);
+      if (this.mayReceive(fileId, address, proof)) control?.startUpload?.();
+      if (control?.paused) {
+        callback({ success: false, error: 'Transfer paused' });
+        return;
+      }
+      
+      let chunks: { index: number, data: string }[];
+      try {
+        chunks = await this.readChunks(cached, missingChunks.slice(0, RETRANSMIT_BATCH));
+      } catch (error) {
+        console.log(`❌ Cannot read source of ${fileId}: ${(error as Error).message}`);
+        callback({ success: false, error: 'File source not available' });
+        return;
+      }
+      
+      console.log(`✅ Sending ${chunks.length} chunks to ${address.slice(0, 12)}...`);
+      if (control) {
+        this.emit('retransmit', { ...control.info }, { peer: address, chunks: chunks.map((chunk) => chunk.index) });
+      }
+      
+      callback({
+        success: true,
+        fileId,
+        chunks
+      });
+    });
+
+    // Handle completion confirmation
+    this.yumi.register('transfer-confirmed', (address: string, args: any, callback: (result: any) => void) => {
+      const { fileId, proof } = args || {};
+      
+      const control = this.outgoing.get(fileId);
+      if (!control || control.delivered.has(address)) {
+        callback({ success: true });
+        return;
+      }
+
+      // Only receivers that could open the file count
+      const entry = this.fileKeys.get(fileId);
+      if (!this.mayReceive(fileId, address, proof)) {
+        console.log(`🚫 Ignoring confirmation of ${fileId} from ${address.slice(0, 12)}... (not a receiver)`);
+        callback({ success: false, error: 'Not a receiver' });
+        return;
+      }
+      
+      console.log(`✅ Transfer confirmed by ${address.slice(0, 12)}... for ${fileId}`);
+      control.delivered.add(address);
+      control.info.peer = address;
+      this.setStatus(control.info, 'complete');
+      this.emit('delivered', { ...control.info }, address);
+      
+      // Remove from cache once every receiver has it (open transfers stay until the cache expires)
+      if (entry?.code || entry?.recipients?.every((recipient) => control.delivered.has(recipient))) {
+        this.forgetOutgoing(fileId);
+        setTimeout(() => this.tombstone(fileId), this.cleanupDelay);
+      }
+      
+      callback({ success: true });
+    });
+  }
+
+  /**
+   * Setup RPC handler notifying us when a receiver accepts or rejects a file we offered
+   */
+  private setupOfferDecisions(): void {
+    this.yumi.register('transfer-decision', (address: string, args: any, callback: (result: any) => void) => {
+      const { fileId, accepted } = args || {};
+
+      if (!this.chunkCache.has(fileId)) {
+        callback({ success: false, error: 'Unknown transfer' });
+        return;
+      }
+
+      const control = this.outgoing.get(fileId);
+      if (accepted && control) {
+        control.peers.add(address);
+        control.info.peer = address;
+        control.info.updatedAt = Date.now();
+      }
+      if (accepted) {
+        console.log(`✅ ${address.slice(0, 12)}... accepted ${fileId}`);
+      } else {
+        console.log(`🚫 ${address.slice(0, 12)}... rejected ${fileId}`);
+      }
+      this.emit(accepted ? 'offer-accepted' : 'offer-rejected', { transferId: fileId, address });
+
+      callback({ success: true });
+    });
+  }
+
+  /**
+   * Setup RPC handler answering receivers that ask for a direct data channel ('rtc-offer')
+   */
+  private setupDirectTransfers(): void {
+    this.yumi.register('rtc-offer', async (address: string, args: any, callback: (result: any) => void) => {
+      const { fileId, sdp, from, proof } = args || {};
+      const cached = this.chunkCache.get(fileId);
+      const control = this.outgoing.get(fileId);
+      if (!this.peerConnection || !cached || !control || !cached.metadata.direct || typeof sdp !== 'string') {
+        callback({ success: false, error: 'Direct transfer not available' });
+        return;
+      }
+      if (!this.mayReceive(fileId, address, proof)) {
+        console.log(`🚫 Refusing direct connection for ${fileId} to ${address.slice(0, 12)}... (not a receiver)`);
+        callback({ success: false, error: 'Not a receiver' });
+        return;
+      }
+
+      const connection = new this.peerConnection({ iceServers: this.iceServers });
+      control.connections.add(connection);
+      control.controller.signal.addEventListener('abort', () => connection.close(), { once: true });
+      connection.addEventListener('datachannel', (event: RTCDataChannelEvent) => {
+        const start = Number.isInteger(from) && from > 0 ? from : 0;
+        this.streamDirect(control, address, event.channel, start);
+      });
+
+      try {
+        await connection.setRemoteDescription({ type: 'offer', sdp });
+        await connection.setLocalDescription(await connection.createAnswer());
+        await iceGathered(connection);
+        callback({ success: true, sdp: connection.localDescription!.sdp });
+      } catch (error) {
+        connection.close();
+        control.connections.delete(connection);
+        callback({ success: false, error: (error as Error).message });
+      }
+    });
+  }
+
+  /**
+   * Whether a peer may receive a transfer we send: anyone for transfers without a key,
+   * else listed recipients and peers proving they hold the key (they redeemed the code or were given it)
+   */
+  private mayReceive(fileId: string, address: string, proof: unknown): boolean {
+    const entry = this.fileKeys.get(fileId);
+    if (!entry) return !this.chunkCache.get(fileId)?.fileKey;
+    return !!entry.recipients?.includes(address) || proof === receiverProof(entry.key, fileId, address);
+  }
+
+  /**
+   * Proof that we hold the key of a transfer we receive, for the sender's mayReceive()
+   */
+  private proofFor(fileId: string): string | undefined {
+    const key = this.fileKeys.get(fileId)?.key;
+    return key ? receiverProof(key, fileId, this.address()) : undefined;
+  }
+
+  /**
+   * Setup RPC handler for cancel, pause and resume notices from the other side of a transfer
+   */
+  private setupTransferControl(): void {
+    this.yumi.register('transfer-control', (address: string, args: any, callback: (result: any) => void) => {
+      const { fileId, action } = args || {};
+      if (action !== 'cancel' && action !== 'pause' && action !== 'resume') {
+        callback({ success: false, error: 'Unknown action' });
+        return;
+      }
+      const event = action === 'cancel' ? 'transfer-cancelled' : action === 'pause' ? 'transfer-paused' : 'transfer-resumed';
+
+      // A receiver of a file we send: the upload goes on for the others
+      const control = this.outgoing.get(fileId);
+      if (control) {
+        if (action === 'cancel') {
+          control.peers.delete(address);
+        }
+        console.log(`⏯️ ${address.slice(0, 12)}... ${action === 'cancel' ? 'cancelled' : action + 'd'} ${fileId}`);
+        this.emit(event, { transferId: fileId, by: 'peer', peer: address });
+        callback({ success: true });
+        return;
+      }
+
+      // The sender of a file we receive
+      const transfer = this.incoming.get(fileId);
+      if (transfer && transfer.metadata.sender === address) {
+        if (action === 'cancel') {
+          this.cancelIncoming(transfer, 'peer');
+        } else {
+          this.setPeerPaused(transfer, action === 'pause');
+        }
+        callback({ success: true });
+        return;
+      }
+
+      // The sender of a file we were offered
+      const offered = this.pendingOffers.get(fileId) || this.lockedFiles.get(fileId);
+      if (offered && offered.metadata.sender === address && action === 'cancel') {
+        this.pendingOffers.delete(fileId);
+        this.lockedFiles.delete(fileId);
+        this.fileKeys.delete(fileId);
+        this.chunkHashes.delete(fileId);
+        const info = this.transferStates.get(fileId);
+        if (info) this.setStatus(info, 'cancelled');
+        console.log(`🛑 Offer ${fileId} was withdrawn by the sender`);
+        this.emit(event, { transferId: fileId, by: 'peer', peer: address });
+        callback({ success: true });
+        return;
+      }
+
+      callback({ success: false, error: 'Unknown transfer' });
+    });
+  }
+
+  /**
+   * Setup RPC handler answering code exchanges (PAKE) for our code-protected transfers:
+   * the transfer key is sent sealed with the session key, only a peer that knew the code can open it
+   */
+  private setupCodeExchange(): void {
+    this.yumi.register('pake', (address: string, args: any, callback: (result: any) => void) => {
+      const { fileId, message } = args || {};
+      const entry = this.fileKeys.get(fileId);
+
+      if (!entry || !entry.code || entry.sender !== this.address()) {
+        callback({ success: false, error: 'Unknown transfer' });
+        return;
+      }
+
+      // Every exchange lets the peer test one code guess
+      if ((entry.attempts || 0) >= PAKE_MAX_ATTEMPTS) {
+        console.log(`🚫 Too many code attempts for ${fileId}, refusing ${address.slice(0, 12)}...`);
+        callback({ success: false, error: 'Too many attempts' });
+        return;
+      }
+      entry.attempts = (entry.attempts || 0) + 1;
+
+      const receiverKey = pakeDecode(message, entry.code, fileId, 'receiver');
+      const keyPair = nacl.box.keyPair();
+      const reply = pakeEncode(keyPair.publicKey, entry.code, fileId, 'sender');
+      const sessionKey = receiverKey
+        ? pakeSessionKey(nacl.scalarMult(keyPair.secretKey, receiverKey), entry.code, fileId, message, reply)
+        : null;
+      if (!sessionKey) {
+        callback({ success: false, error: 'Invalid code exchange' });
+        return;
+      }
+
+      console.log(`🔑 Code exchange for ${fileId} with ${address.slice(0, 12)}... (attempt ${entry.attempts}/${PAKE_MAX_ATTEMPTS})`);
+      callback({ success: true, fileId, message: reply, key: sealData(entry.key, sessionKey) });
+    });
+  }
+
+  /**
+   * Setup RPC handler distributing per-transfer keys over Yari's SEA channel
+   */
+  private setupFileKeyExchange(): void {
+    this.yumi.register('request-file-key', async (address: string, args: any, callback: (result: any) => void) => {
+      const { fileId } = args || {};
+      const entry = this.fileKeys.get(fileId);
+
+      // Only the sender hands out keys for its own transfers
+      if (!entry || entry.sender !== this.address()) {
+        callback({ success: false, error: 'Unknown transfer' });
+        return;
+      }
+
+      // Code-protected transfers only through the code exchange
+      if (entry.code) {
+        callback({ success: false, error: 'Code-protected transfer' });
+        return;
+      }
+
+      // Targeted transfers only to their recipients
+      if (entry.recipients && !entry.recipients.includes(address)) {
+        console.log(`🚫 Refusing file key for ${fileId} to ${address.slice(0, 12)}... (not a recipient)`);
+        callback({ success: false, error: 'Not a recipient' });
+        return;
+      }
+
+      try {
+        await this.yari!.waitForPeer(address, this.transferTimeout);
+        const key = await this.yari!.encryptFor(address, toBase64(toBuffer(entry.key)));
+        console.log(`🔑 Sent file key for ${fileId} to ${address.slice(0, 12)}...`);
+        callback({ success: true, fileId, key });
+      } catch (error) {
+        console.log(`❌ Cannot share file key with ${address.slice(0, 12)}...: ${(error as Error).message}`);
+        callback({ success: false, error: (error as Error).message });
+      }
+    });
+  }
+
+  /**
+   * Start periodic cache cleanup
+   */
+  private startCacheCleanup(): void {
+    this.cleanupInterval = setInterval(() => {
+      const now = Date.now();
+      const toDelete: string[] = [];
+      
+      for (const [fileId, cached] of this.chunkCache.entries()) {
+        if (this.outgoing.get(fileId)?.paused) continue; // Kept until resumed or cancelled
+        if (this.expiries.has(fileId)) continue; // Kept until expiry or delivery, see below
+        if (now - cached.timestamp > this.CACHE_RETENTION) {
+          toDelete.push(fileId);
+        }
+      }
+      
+      for (const fileId of toDelete) {
+        console.log(`🗑️ Cleaning up cached chunks for ${fileId}`);
+        this.forgetOutgoing(fileId);
+      }
+
+      // Transfers we published, once expired
+      for (const [fileId, expiresAt] of this.expiries.entries()) {
+        if (now <= expiresAt) continue;
+        console.log(`⌛ Transfer ${fileId} expired`);
+        const control = this.outgoing.get(fileId);
+        if (control && !control.delivered.size && control.info.status !== 'cancelled') {
+          this.setStatus(control.info, 'failed', 'Transfer expired');
+          this.emit('failed', { ...control.info });
+        }
+        this.forgetOutgoing(fileId);
+        this.tombstone(fileId);
+      }
+
+      // Files we serve as a receiver, once nobody asked for them in a while
+      for (const [fileId, seed] of this.seeds.entries()) {
+        if (!this.incoming.has(fileId) && (now - seed.timestamp > this.CACHE_RETENTION || isExpired(seed.metadata, now))) {
+          console.log(`🗑️ No longer sharing ${fileId}`);
+          this.stopSeeding(fileId);
+        }
+      }
+
+      // Keys of transfers we still send or receive are kept
+      for (const [fileId, entry] of this.fileKeys.entries()) {
+        if (this.expiries.has(fileId) || this.incoming.has(fileId)) continue;
+        if (now - entry.timestamp > this.CACHE_RETENTION) {
+          this.fileKeys.delete(fileId);
+        }
+      }
+
+      // Unanswered offers and unredeemed codes
+      for (const [fileId, pending] of this.pendingOffers.entries()) {
+        if (now - pending.timestamp > this.CACHE_RETENTION || isExpired(pending.metadata, now)) {
+          this.pendingOffers.delete(fileId);
+          this.chunkHashes.delete(fileId);
+          this.transferStates.delete(fileId);
+        }
+      }
+      for (const [fileId, locked] of this.lockedFiles.entries()) {
+        if (now - locked.timestamp > this.CACHE_RETENTION || isExpired(locked.metadata, now)) {
+          this.lockedFiles.delete(fileId);
+          this.chunkHashes.delete(fileId);
+        }
+      }
+
+      // Finished transfers
+      for (const [fileId, info] of this.transferStates.entries()) {
+        if (info.finishedAt && now - info.finishedAt > TRANSFER_HISTORY) {
+          this.transferStates.delete(fileId);
+        }
+      }
+    }, 60000); // Check every minute
+  }
+
+  /**
+   * Setup GunDB file transfer listeners
+   * @param root Gun node holding the `files` and `chunks` nodes (channel, or graph root for legacy transfers)
+   */
+  private setupGunDBFileListeners(root: any): void {
+    console.log('📁 Setting up GunDB file transfer listeners...');
+    
+    const processedFiles = new Set<string>(); // Track processed files to avoid duplicates
+    const invalidFiles = new Map<string, string>(); // Last reason logged for metadata that does not verify yet
+    
+    // Listen for all files (not just new ones)
+    root.get('files').map().on((metadata: any, fileId: any) => {
+      if (!metadata || metadata.sender === this.address()) return; // Skip own files
+      if (processedFiles.has(fileId)) return; // Skip already processed files
+      if (this.claimedFiles.has(fileId)) return; // Handled by receiveFile()
+      
+      // Not marked as processed on failure: GunDB may deliver the metadata node in parts,
+      // so only a format we cannot read fails the transfer, anything else may still be completed
+      const integrityError = this.verifyMetadata(metadata, fileId);
+      if (integrityError && !unsupportedFormat(metadata)) {
+        if (invalidFiles.get(fileId) !== integrityError) {
+          invalidFiles.set(fileId, integrityError);
+          console.log(`⏳ Metadata for ${fileId} not valid yet: ${integrityError}`);
+        }
+        return;
+      }
+
+      processedFiles.add(fileId);
+      invalidFiles.delete(fileId);
+
+      if (integrityError) {
+        console.log(`❌ Rejecting file ${fileId}: ${integrityError}`);
+        const info = this.trackTransfer({
+          transferId: fileId,
+          direction: 'incoming',
+          peer: metadata.sender,
+          filename: metadata.name || fileId,
+          size: metadata.size || 0,
+          chunks: metadata.totalChunks || 0,
+          status: 'waiting'
+        });
+        this.setStatus(info, 'failed', integrityError);
+        this.emit('transfer-failed', { transferId: fileId, filename: info.filename, reason: integrityError });
+        this.emit('failed', { ...info });
+        return;
+      }
+
+      if (isExpired(metadata)) {
+        // Left behind by a sender that went away before removing it
+        if (isExpired(metadata, Date.now() - EXPIRY_GRACE)) {
+          this.tombstone(fileId, root);
+        }
+        this.chunkHashes.delete(fileId);
+        return;
+      }
+
+      // Targeted transfers carry a key for each recipient, other peers ignore them
+      const keys = recipientKeys(metadata);
+      if (metadata.recipients && !(keys && keys[this.address()])) {
+        this.chunkHashes.delete(fileId);
+        return;
+      }
+
+      // Code-protected transfers wait until someone redeems their code
+      if (metadata.pake) {
+        this.lockedFiles.set(fileId, { metadata, root, timestamp: Date.now() });
+        console.log(`🔒 Code-protected file available: ${fileId}`);
+        return;
+      }
+
+      if (metadata.encrypted && !keys && !this.yari) {
+        console.log(`🔐 Skipping encrypted file ${fileId} (start Kunai with encryption to receive it)`);
+        return;
+      }
+
+      const opened = metadata.encrypted ? this.unsealMetadata(metadata, fileId) : Promise.resolve(metadata);
+      opened
+        .then((plainMetadata) => this.offerFile(plainMetadata, fileId, root))
+        .catch((error) => {
+          console.log(`❌ Cannot offer file ${fileId}: ${(error as Error).message}`);
+        });
+    });
+  }
+
+  /**
+   * Check the sender's signature over the metadata and the chunk hash list,
+   * returns the reason on failure
+   */
+  private verifyMetadata(metadata: any, fileId: string): string | null {
+    if (!metadata.signature || !metadata.pk) {
+      // Transfers from older Kunai versions carry no integrity data
+      return this.legacyTransfers ? null : 'Transfer is not signed';
+    }
+
+    if (this.yumi.address(metadata.pk) !== metadata.sender) {
+      return 'Signing key does not match sender';
+    }
+
+    const formatError = unsupportedFormat(metadata);
+    if (formatError) return formatError;
+
+    try {
+      const valid = nacl.sign.detached.verify(
+        integrityPayload(fileId, metadata),
+        new Uint8Array(fromHex(metadata.signature)),
+        new Uint8Array(bs58.decode(metadata.pk))
+      );
+      if (!valid) return 'Invalid metadata signature';
+    } catch (e) {
+      return 'Malformed metadata signature';
+    }
+
+    if (!metadata.merkleRoot) {
+      // Streamed transfers sign a header first, the chunk hashes follow in a manifest
+      if (metadata.streaming) return null;
+      return this.legacyTransfers ? null : 'Transfer has no chunk hashes';
+    }
+
+    const hashes = splitHashes(metadata.chunkHashes || '');
+    if (hashes.length !== metadata.totalChunks) {
+      return 'Chunk hash list does not match chunk count';
+    }
+    if (merkleRoot(hashes) !== metadata.merkleRoot) {
+      return 'Merkle root does not match chunk hashes';
+    }
+
+    this.chunkHashes.set(fileId, hashes);
+    return null;
+  }
+
+  /**
+   * Redeem the code of a code-protected transfer: the code is checked with the sender (PAKE),
+   * which hands over the transfer key, and the file is then offered like any other
+   */
+  async redeem(code: string): Promise<FileOffer> {
+    const { fileId, secret } = parseTransferCode(code);
+    const locked = this.lockedFiles.get(fileId);
+    if (!locked) {
+      throw new Error(`No code-protected transfer ${fileId}`);
+    }
+    if (!secret) {
+      throw new Error('Transfer code has no secret words');
+    }
+
+    const key = await this.exchangeCode(locked.metadata.sender, fileId, secret);
+    const plainMetadata = this.openMetadata(locked.metadata, fileId, key);
+
+    this.lockedFiles.delete(fileId);
+    return this.offerFile(plainMetadata, fileId, locked.root);
+  }
+
+  /**
+   * Receive a file by its transfer code: only that transfer is fetched, the code is checked
+   * with the sender if it is code-protected, and the file is downloaded without an offer.
+   * Resolves once the file is complete, rejects if it fails, or stalls for `timeout`.
+   */
+  async receiveFile(code: string, options: ReceiveOptions = {}): Promise<ReceivedFile> {
+    const { fileId, secret } = parseTransferCode(code);
+    if (!fileId) {
+      throw new Error('Invalid transfer code');
+    }
+    if (this.claimedFiles.has(fileId) || this.incoming.has(fileId)) {
+      throw new Error(`Transfer ${fileId} is already being received`);
+    }
+
+    const timeout = options.timeout || RECEIVE_TIMEOUT;
+    const { signal } = options;
+    if (signal?.aborted) {
+      throw abortError();
+    }
+    const onAbort = () => {
+      const transfer = this.incoming.get(fileId);
+      if (transfer) this.cancelIncoming(transfer, 'local');
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    this.claimedFiles.add(fileId);
+
+    try {
+      // 1. Find the transfer (seen already, or wait for it on the channel)
+      const found = this.lockedFiles.get(fileId) || this.pendingOffers.get(fileId) || await this.waitForFile(fileId, timeout);
+      this.lockedFiles.delete(fileId);
+      this.pendingOffers.delete(fileId);
+      let metadata = found.metadata;
+
+      const keys = recipientKeys(metadata);
+      if (metadata.recipients && !(keys && keys[this.address()])) {
+        throw new Error('Transfer is addressed to other peers');
+      }
+
+      // 2. Get the transfer key
+      if (metadata.pake) {
+        if (!secret) {
+          throw new Error('Transfer code has no secret words');
+        }
+        metadata = this.openMetadata(metadata, fileId, await this.exchangeCode(metadata.sender, fileId, secret));
+      } else if (metadata.encrypted && !metadata.name) {
+        metadata = await this.unsealMetadata(metadata, fileId);
+      }
+
+      // 3. Download it
+      parseBundle(metadata);
+      if (signal?.aborted) {
+        throw abortError();
+      }
+      console.log(`📥 Receiving ${metadata.name} by code`);
+      const result = this.waitForTransfer(fileId, timeout);
+      this.notifyDecision(metadata.sender, fileId, true);
+      this.emit('transfer-accepted', fileId);
+      this.receiveChunks(metadata, fileId, found.root, options.destination);
+      return await result;
+    } catch (error) {
+      if (!this.incoming.has(fileId)) {
+        this.fileKeys.delete(fileId);
+        this.chunkHashes.delete(fileId);
+      }
+      throw error;
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+      this.claimedFiles.delete(fileId);
+    }
+  }
+
+  /**
+   * Wait for the verified metadata of one transfer on our channel
+   */
+  private waitForFile(fileId: string, timeout: number): Promise<{ metadata: any, root: any }> {
+    const root = this.yumi.channel;
+
+    return new Promise((resolve, reject) => {
+      let listener: any = null;
+      const done = () => {
+        clearTimeout(timer);
+        if (listener && typeof listener.off === 'function') {
+          listener.off();
+        }
+      };
+      const timer = setTimeout(() => {
+        done();
+        reject(new Error(`Transfer ${fileId} not found`));
+      }, timeout);
+
+      listener = root.get('files').get(fileId).on((metadata: any) => {
+        if (!metadata || metadata.sender === this.address()) return;
+
+        // GunDB may deliver the metadata node in parts, wait for a valid one
+        const integrityError = this.verifyMetadata(metadata, fileId);
+        if (integrityError) return;
+
+        done();
+        if (isExpired(metadata)) {
+          this.chunkHashes.delete(fileId);
+          reject(new Error(`Transfer ${fileId} expired`));
+          return;
+        }
+        resolve({ metadata: { ...metadata }, root });
+      });
+    });
+  }
+
+  /**
+   * Settle once an incoming transfer is received or fails, failing it if no chunk arrives for `timeout`
+   */
+  private waitForTransfer(fileId: string, timeout: number): Promise<ReceivedFile> {
+    return new Promise((resolve, reject) => {
+      const onReceived = (result: ReceivedFile) => {
+        if (result.fileId !== fileId) return;
+        done();
+        resolve(result);
+      };
+      const onFailed = (result: any) => {
+        if (result.transferId !== fileId) return;
+        done();
+        reject(new Error(result.reason || 'Transfer failed'));
+      };
+      const onCancelled = (result: any) => {
+        if (result.transferId !== fileId) return;
+        done();
+        reject(abortError());
+      };
+      const watchdog = setInterval(() => {
+        const transfer = this.incoming.get(fileId);
+        if (transfer && !transfer.completed && !transfer.paused && !transfer.peerPaused &&
+            Date.now() - transfer.lastChunkAt > timeout) {
+          this.failTransfer(transfer, `No data for ${Math.round(timeout / 1000)}s`);
+        }
+      }, 1000);
+      const done = () => {
+        clearInterval(watchdog);
+        this.off('file-received', onReceived);
+        this.off('transfer-failed', onFailed);
+        this.off('transfer-cancelled', onCancelled);
+      };
+
+      this.on('file-received', onReceived);
+      this.on('transfer-failed', onFailed);
+      this.on('transfer-cancelled', onCancelled);
+    });
+  }
+
+  /**
+   * Wait until the sender is online (and, in encrypted mode, has exchanged keys with us)
+   */
+  private waitForSender(senderAddress: string): Promise<void> {
+    if (this.yari) {
+      return this.yari.waitForPeer(senderAddress, this.transferTimeout);
+    }
+    if (this.yumi.peers[senderAddress]) {
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve, reject) => {
+      const onSeen = (address: string) => {
+        if (address !== senderAddress) return;
+        clearTimeout(timer);
+        this.yumi.off('seen', onSeen);
+        resolve();
+      };
+      const timer = setTimeout(() => {
+        this.yumi.off('seen', onSeen);
+        reject(new Error('Sender is not online: ' + senderAddress));
+      }, this.transferTimeout);
+      this.yumi.on('seen', onSeen);
+    });
+  }
+
+  /**
+   * Run the code exchange (PAKE) with the sender and open the transfer key
+   */
+  private async exchangeCode(senderAddress: string, fileId: string, secret: string): Promise<Uint8Array> {
+    await this.waitForSender(senderAddress);
+
+    const keyPair = nacl.box.keyPair();
+    const message = pakeEncode(keyPair.publicKey, secret, fileId, 'receiver');
+
+    return new Promise((resolve, reject) => {
+      console.log(`🔑 Exchanging code for ${fileId} with ${senderAddress.slice(0, 12)}...`);
+
+      try {
+        this.yumi.rpc(senderAddress, 'pake', { fileId, message }, (response: any) => {
+          if (!response || !response.success) {
+            reject(new Error(response?.error || 'Code exchange rejected'));
+            return;
+          }
+
+          const senderKey = pakeDecode(response.message, secret, fileId, 'sender');
+          const sessionKey = senderKey
+            ? pakeSessionKey(nacl.scalarMult(keyPair.secretKey, senderKey), secret, fileId, message, response.message)
+            : null;
+          const key = sessionKey ? openData(response.key, sessionKey) : null;
+          if (!key) {
+            reject(new Error('Wrong transfer code'));
+            return;
+          }
+          resolve(key);
+        });
+      } catch (error) {
+        reject(error);
+      }
+    });
+  }
+
+  /**
+   * Announce a verified incoming file, nothing is downloaded until it is accepted
+   */
+  private offerFile(metadata: any, fileId: string, root: any): FileOffer {
+    let files: BundleEntry[] | null;
+    try {
+      files = parseBundle(metadata);
+    } catch (error) {
+      this.fileKeys.delete(fileId);
+      this.chunkHashes.delete(fileId);
+      this.emit('transfer-failed', { transferId: fileId, filename: metadata.name || fileId, reason: (error as Error).message });
+      throw error;
+    }
+
+    const offer: FileOffer = {
+      transferId: fileId,
+      from: metadata.sender,
+      filename: metadata.name,
+      size: metadata.size,
+      type: metadata.type,
+      chunks: metadata.totalChunks ?? 0,
+      ...(files ? { files } : {})
+    };
+    this.pendingOffers.set(fileId, { offer, metadata, root, timestamp: Date.now() });
+    const info = this.trackTransfer({
+      transferId: fileId,
+      direction: 'incoming',
+      peer: metadata.sender,
+      filename: offer.filename,
+      size: offer.size || 0,
+      chunks: offer.chunks,
+      status: 'waiting'
+    });
+
+    // Transfers accepted before a restart resume without asking again
+    const saved = this.stateDir ? readState(statePath(this.stateDir, 'incoming', fileId)) : null;
+    if (saved && typeof saved.destination === 'string') {
+      this.accept(fileId, saved.destination);
+      return offer;
+    }
+
+    console.log(`📨 File offered: ${metadata.name} (${this.formatSize(metadata.size || 0)}) - ID: ${fileId}`);
+    this.emit('file-offer', offer);
+    this.emit('offer', { ...info });
+
+    if (this.autoAccept) {
+      this.accept(fileId);
+    }
+    return offer;
+  }
+
+  /**
+   * Accept an offered file and start downloading it
+   * @param destination File path (Node), Node Writable or web WritableStream; defaults to `downloadDir`, or memory
+   */
+  accept(transferId: string, destination?: KunaiDestination | null): void {
+    const pending = this.pendingOffers.get(transferId);
+    if (!pending) {
+      throw new Error(`No pending offer for transfer ${transferId}`);
+    }
+    if (isExpired(pending.metadata)) {
+      this.pendingOffers.delete(transferId);
+      throw new Error(`Transfer ${transferId} expired`);
+    }
+
+    this.pendingOffers.delete(transferId);
+    this.notifyDecision(pending.metadata.sender, transferId, true);
+    this.emit('transfer-accepted', transferId);
+    this.receiveChunks(pending.metadata, transferId, pending.root, destination);
+  }
+
+  /**
+   * Reject an offered file, the sender is told so
+   */
+  reject(transferId: string): void {
+    const pending = this.pendingOffers.get(transferId);
+    if (!pending) {
+      throw new Error(`No pending offer for transfer ${transferId}`);
+    }
+
+    this.pendingOffers.delete(transferId);
+    this.fileKeys.delete(transferId);
+    this.chunkHashes.delete(transferId);
+
+    const info = this.transferStates.get(transferId);
+    if (info) this.setStatus(info, 'rejected');
+
+    console.log(`🚫 Rejected ${pending.offer.filename} (${transferId})`);
+    this.notifyDecision(pending.metadata.sender, transferId, false);
+    this.emit('transfer-rejected', transferId);
+  }
+
+  /**
+   * Offers waiting for accept() or reject()
+   */
+  offers(): FileOffer[] {
+    return Array.from(this.pendingOffers.values(), (pending) => pending.offer);
+  }
+
+  /**
+   * Cancel a file we send or receive: the upload or download stops, partial data is
+   * discarded and the other side is told. Cancelling an offer rejects it.
+   */
+  cancelTransfer(transferId: string): void {
+    const control = this.outgoing.get(transferId);
+    if (control) {
+      this.cancelOutgoing(control);
+      return;
+    }
+
+    const transfer = this.incoming.get(transferId);
+    if (transfer) {
+      this.cancelIncoming(transfer, 'local');
+      return;
+    }
+
+    if (this.pendingOffers.has(transferId)) {
+      this.reject(transferId);
+      return;
+    }
+
+    throw new Error(`Unknown transfer ${transferId}`);
+  }
+
+  /**
+   * Pause a file we send (the upload holds) or receive (no chunks are collected), until resumeTransfer()
+   */
+  pauseTransfer(transferId: string): void {
+    const control = this.outgoing.get(transferId);
+    if (control) {
+      if (control.paused) return;
+      control.paused = true;
+      this.setStatus(control.info, 'paused');
+      this.notifyPeers(control, 'pause');
+      console.log(`⏸️ Paused sending ${transferId}`);
+      this.emit('transfer-paused', { transferId, by: 'local' });
+      return;
+    }
+
+    const transfer = this.incoming.get(transferId);
+    if (transfer) {
+      if (transfer.paused || transfer.completed) return;
+      transfer.paused = true;
+      this.setStatus(transfer.info, 'paused');
+      if (transfer.ackTimer) {
+        clearTimeout(transfer.ackTimer);
+        transfer.ackTimer = null;
+      }
+      if (transfer.chunkListener && typeof transfer.chunkListener.off === 'function') {
+        transfer.chunkListener.off();
+      }
+      transfer.chunkListener = null;
+      if (transfer.direct) {
+        this.dropDirect(transfer, transfer.direct, null);
+      }
+      this.sendControl(transfer.metadata.sender, transferId, 'pause');
+      console.log(`⏸️ Paused receiving ${transfer.metadata.name} (${transfer.received.size}/${transfer.metadata.totalChunks ?? '?'} chunks)`);
+      this.emit('transfer-paused', { transferId, by: 'local' });
+      return;
+    }
+
+    throw new Error(`Unknown transfer ${transferId}`);
+  }
+
+  /**
+   * Resume a transfer paused with pauseTransfer()
+   */
+  resumeTransfer(transferId: string): void {
+    const control = this.outgoing.get(transferId);
+    if (control) {
+      if (!control.paused) return;
+      control.paused = false;
+      this.setStatus(control.info, control.uploaded ? 'waiting' : 'sending');
+      const cached = this.chunkCache.get(transferId);
+      if (cached) cached.timestamp = Date.now();
+      const wake = control.resume;
+      control.resume = null;
+      wake?.();
+      this.notifyPeers(control, 'resume');
+      console.log(`▶️ Resumed sending ${transferId}`);
+      this.emit('transfer-resumed', { transferId, by: 'local' });
+      return;
+    }
+
+    const transfer = this.incoming.get(transferId);
+    if (transfer) {
+      if (!transfer.paused || transfer.completed) return;
+      transfer.paused = false;
+      this.setStatus(transfer.info, 'receiving');
+      transfer.lastChunkAt = Date.now();
+      // GunDB replays the chunks stored meanwhile to the new listener
+      this.listenForChunks(transfer);
+      if (transfer.metadata.direct && this.peerConnection) {
+        this.connectDirect(transfer);
+      }
+      this.scheduleAck(transfer);
+      this.sendControl(transfer.metadata.sender, transferId, 'resume');
+      console.log(`▶️ Resumed receiving ${transfer.metadata.name}`);
+      this.emit('transfer-resumed', { transferId, by: 'local' });
+      return;
+    }
+
+    throw new Error(`Unknown transfer ${transferId}`);
+  }
+
+  /**
+   * Transfers we send, receive or were offered (finished ones for an hour), newest first
+   */
+  transfers(): TransferInfo[] {
+    return Array.from(this.transferStates.values(), (info) => ({ ...info }))
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  /**
+   * State of one transfer, or null if it is unknown
+   */
+  getTransfer(transferId: string): TransferInfo | null {
+    const info = this.transferStates.get(transferId);
+    return info ? { ...info } : null;
+  }
+
+  /**
+   * Add a transfer to the state machine (replacing a finished one with the same id)
+   */
+  private trackTransfer(fields: Pick<TransferInfo, 'transferId' | 'direction' | 'peer' | 'filename' | 'size' | 'chunks' | 'status'>): TransferInfo {
+    const now = Date.now();
+    const info: TransferInfo = { ...fields, createdAt: now, updatedAt: now };
+    if (fields.status === 'sending' || fields.status === 'receiving') {
+      info.startedAt = now;
+    }
+    this.transferStates.set(info.transferId, info);
+    return info;
+  }
+
+  /**
+   * Move a transfer to another status, returns false if the state machine does not allow it
+   */
+  private setStatus(info: TransferInfo, status: TransferStatus, reason?: string): boolean {
+    if (info.status !== status && !TRANSFER_TRANSITIONS[info.status].includes(status)) {
+      return false;
+    }
+
+    const now = Date.now();
+    info.status = status;
+    info.updatedAt = now;
+    if (reason) {
+      info.reason = reason;
+    }
+    if ((status === 'sending' || status === 'receiving') && !info.startedAt) {
+      info.startedAt = now;
+    }
+    if (TRANSFER_TRANSITIONS[status].length === 0) {
+      info.finishedAt = now;
+    }
+    return true;
+  }
+
+  /**
+   * Tell the sender whether we accepted its file (best effort, the sender may be gone)
+   */
+  private notifyDecision(senderAddress: string, fileId: string, accepted: boolean): void {
+    if (!senderAddress) return;
+
+    try {
+      this.yumi.rpc(senderAddress, 'transfer-decision', { fileId, accepted }, () => {});
+    } catch (error) {
+      console.log(`⚠️ Cannot notify sender of ${fileId}: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Tell the other side of a transfer that we cancelled, paused or resumed it (best effort)
+   */
+  private sendControl(address: string, fileId: string, action: 'cancel' | 'pause' | 'resume'): void {
+    if (!address) return;
+
+    try {
+      this.yumi.rpc(address, 'transfer-control', { fileId, action }, () => {});
+    } catch (error) {
+      console.log(`⚠️ Cannot notify ${address.slice(0, 12)}... of ${fileId}: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Tell every known receiver of a file we send
+   */
+  private notifyPeers(control: OutgoingTransfer, action: 'cancel' | 'pause' | 'resume'): void {
+    for (const address of control.peers) {
+      this.sendControl(address, control.fileId, action);
+    }
+  }
+
+  /**
+   * Where to save an incoming file in `downloadDir`: the partial file of an interrupted transfer,
+   * or its name (the transfer id for unsafe names), numbered rather than replacing an existing file
+   */
+  private downloadPath(metadata: any, fileId: string): string {
+    const dir = path.resolve(this.downloadDir!);
+    // Files resume into their partial file, directories start over under a new name
+    const partial = this.stateDir ? readState(statePath(this.stateDir, 'incoming', fileId))?.destination : null;
+    if (typeof partial === 'string' && isInside(dir, partial) && !metadata.files) {
+      return partial;
+    }
+
+    const name = safeFileName(metadata.name) || safeFileName(fileId) || 'download';
+    const ext = path.extname(name);
+    let destination = path.join(dir, name);
+    for (let n = 1; fs.existsSync(destination); n++) {
+      destination = path.join(dir, `${path.basename(name, ext)} (${n})${ext}`);
+    }
+    if (!isInside(dir, destination)) {
+      throw new Error('Unsafe file name: ' + metadata.name);
+    }
+    return destination;
+  }
+
+  /**
+   * Collect the chunks of an accepted file and write them to its sink in order
+   */
+  private receiveChunks(metadata: any, fileId: string, root: any, destination?: KunaiDestination | null): void {
+    console.log(`📥 Receiving: ${metadata.name} (${metadata.totalChunks ?? '?'} chunks)`);
+
+    if (destination === undefined && this.downloadDir) {
+      destination = this.downloadPath(metadata, fileId);
+    }
+    if (typeof destination === 'string') {
+      fs.mkdirSync(path.dirname(destination), { recursive: true });
+    }
+
+    // Continue after the last chunk written before a restart (directories start over)
+    const files = parseBundle(metadata);
+    const resume = typeof destination === 'string' && !files ? this.loadIncomingState(fileId, metadata, destination) : null;
+    const nextIndex = resume ? resume.nextIndex : 0;
+
+    const transfer: IncomingTransfer = {
+      fileId,
+      metadata,
+      root,
+      sink: createSink(destination, resume ? resume.bytesWritten : 0, files),
+      files,
+      received: new Set(Array.from({ length: nextIndex }, (_, i) => i)),
+      pending: new Map(),
+      nextIndex,
+      carry: resume ? resume.carry : '',
+      bytesWritten: resume ? resume.bytesWritten : 0,
+      writing: Promise.resolve(),
+      writeError: null,
+      unverifiedHashes: new Map(resume ? resume.unverifiedHashes : []),
+      lastChunkAt: Date.now(),
+      chunkGap: 0,
+      info: this.incomingRecord(metadata, fileId),
+      progressAt: 0,
+      acking: false,
+      completed: false,
+      paused: false,
+      peerPaused: false,
+      savedAt: 0,
+      ackTimer: null,
+      direct: null,
+      chunkListener: null,
+      manifestListener: null,
+      seeders: new Map(),
+      requested: new Set(),
+      seedListener: null
+    };
+    this.incoming.set(fileId, transfer);
+
+    // Directories never replace a file: fail now rather than halfway through the tree
+    const tree = typeof destination === 'string' ? destination : null;
+    const taken = tree && files?.map((entry) => bundlePath(tree, entry.path)).find((target) => fs.existsSync(target));
+    if (taken) {
+      this.failTransfer(transfer, 'File already exists: ' + taken);
+      return;
+    }
+
+    // Streamed transfers publish their signed chunk hashes once the upload is done
+    if (metadata.streaming && !this.chunkHashes.has(fileId)) {
+      transfer.manifestListener = root.get('files').get(fileId).on((raw: any) => {
+        if (raw) this.applyManifest(transfer, raw);
+      });
+    }
+
+    this.listenForChunks(transfer);
+    this.listenForSeeders(transfer);
+    if (metadata.direct && this.peerConnection) {
+      this.connectDirect(transfer);
+    }
+
+    // Serve the chunks written so far to other receivers
+    const hashes = this.chunkHashes.get(fileId);
+    const sinkPath = transfer.sink.path;
+    if (this.reshare && hashes && metadata.encoding === CHUNK_ENCODING && sinkPath && !transfer.files) {
+      this.seeds.set(fileId, {
+        openReader: async () => {
+          await transfer.writing;
+          return fileReader(sinkPath, metadata.chunkBytes);
+        },
+        fileKey: this.fileKeys.get(fileId)?.key ?? null,
+        metadata,
+        hashes,
+        have: 0,
+        timestamp: Date.now()
+      });
+    }
+    this.scheduleAck(transfer);
+
+    // Empty files have no chunks to wait for
+    this.completeIfDone(transfer);
+  }
+
+  /**
+   * The state machine record of a file we start receiving (the offer's, or a new one)
+   */
+  private incomingRecord(metadata: any, fileId: string): TransferInfo {
+    const existing = this.transferStates.get(fileId);
+    const info = existing && !existing.finishedAt && existing.direction === 'incoming'
+      ? existing
+      : this.trackTransfer({
+        transferId: fileId,
+        direction: 'incoming',
+        peer: metadata.sender,
+        filename: metadata.name,
+        size: metadata.size || 0,
+        chunks: metadata.totalChunks ?? 0,
+        status: 'waiting'
+      });
+    info.filename = metadata.name;
+    this.setStatus(info, 'receiving');
+    return info;
+  }
+
+  /**
+   * Collect the chunks of an incoming transfer as GunDB delivers them
+   */
+  private listenForChunks(transfer: IncomingTransfer): void {
+    const processedChunkIds = new Set<string>(); // Track processed chunks to avoid duplicates
+
+    // Listen for chunks of this file using .map() with strict deduplication
+    transfer.chunkListener = transfer.root.get('chunks').get(transfer.fileId).map().on((chunk: any, chunkId: any) => {
+      // Prevent infinite loops and duplicate processing
+      if (!chunk || typeof chunk.index === 'undefined' || !chunk.data) return;
+      if (transfer.completed || transfer.paused) return;
+      if (processedChunkIds.has(chunkId)) return;
+
+      processedChunkIds.add(chunkId);
+
+      if (this.acceptChunk(transfer, chunk.index, chunk.data)) {
+        this.logReceiveProgress(transfer);
+        this.completeIfDone(transfer);
+      }
+    });
+  }
+
+  /**
+   * Verify, decrypt and queue a chunk for writing, returns false if it was not accepted
+   */
+  private acceptChunk(transfer: IncomingTransfer, index: number, data: string): boolean {
+    const total = transfer.metadata.totalChunks;
+    if (transfer.received.has(index) || index < 0 || (typeof total === 'number' && index >= total)) {
+      return false;
+    }
+
+    const chunkData = this.readChunk(transfer, index, data);
+    if (chunkData === null) return false;
+
+    // Checked once the manifest of a streamed transfer arrives
+    if (transfer.metadata.streaming && !this.chunkHashes.has(transfer.fileId)) {
+      transfer.unverifiedHashes.set(index, hashChunk(data));
+    }
+
+    const now = Date.now();
+    if (transfer.received.size > 0) {
+      const gap = now - transfer.lastChunkAt;
+      transfer.chunkGap = transfer.chunkGap ? transfer.chunkGap * 0.8 + gap * 0.2 : gap;
+    }
+    transfer.received.add(index);
+    transfer.pending.set(index, chunkData);
+    transfer.lastChunkAt = now;
+    this.flushChunks(transfer);
+    this.reportReceiveProgress(transfer);
+    return true;
+  }
+
+  /**
+   * Emit the progress of an incoming transfer (bytes are estimated from the chunk size)
+   */
+  private reportReceiveProgress(transfer: IncomingTransfer): void {
+    const { metadata, info } = transfer;
+    info.chunks = metadata.totalChunks ?? 0;
+    info.size = metadata.size || 0;
+
+    const count = transfer.received.size;
+    const bytes = metadata.chunkBytes ? count * metadata.chunkBytes : transfer.bytesWritten;
+    this.reportProgress(transfer, count, info.size > 0 ? Math.min(info.size, bytes) : bytes);
+  }
+
+  /**
+   * Update a transfer's progress and emit it, at most every PROGRESS_INTERVAL and always when done
+   */
+  private reportProgress(transfer: { info: TransferInfo, progressAt: number }, chunksDone: number, bytes: number): void {
+    const { info } = transfer;
+    const done = info.chunks > 0 && chunksDone >= info.chunks;
+    const now = Date.now();
+    if (!done && now - transfer.progressAt < PROGRESS_INTERVAL) return;
+
+    transfer.progressAt = now;
+    measureProgress(info, chunksDone, bytes);
+    this.emit('progress', { ...info });
+  }
+
+  /**
+   * Write consecutive chunks to the sink, later ones wait in `pending`
+   */
+  private flushChunks(transfer: IncomingTransfer): void {
+    while (transfer.pending.has(transfer.nextIndex)) {
+      const chunk = transfer.pending.get(transfer.nextIndex)!;
+      transfer.pending.delete(transfer.nextIndex);
+      transfer.nextIndex++;
+
+      let bytes: Uint8Array;
+      if (typeof chunk === 'string') {
+        // Legacy chunks were cut from one base64 string, so a boundary can split a 4-char group
+        const text = transfer.carry + chunk;
+        const cut = text.length - (text.length % 4);
+        transfer.carry = text.slice(cut);
+        bytes = new Uint8Array(fromBase64(text.slice(0, cut)));
+      } else {
+        bytes = chunk;
+      }
+      if (transfer.metadata.compression) {
+        try {
+          bytes = unpackChunk(bytes, transfer.metadata.chunkBytes);
+        } catch (error) {
+          this.failTransfer(transfer, `Cannot decompress chunk ${transfer.nextIndex - 1}: ${(error as Error).message}`);
+          return;
+        }
+      }
+      const sink = transfer.sink;
+      transfer.bytesWritten += bytes.length;
+
+      const progress = { nextIndex: transfer.nextIndex, bytesWritten: transfer.bytesWritten, carry: transfer.carry };
+      transfer.writing = transfer.writing.then(async () => {
+        if (transfer.writeError) return;
+        try {
+          await sink.write(bytes);
+          this.saveIncomingState(transfer, progress);
+        } catch (error) {
+          // A full disk or a refused file fails this transfer only
+          transfer.writeError = error as Error;
+          await this.failTransfer(transfer, `Cannot write ${transfer.metadata.name}: ${transfer.writeError.message}`);
+        }
+      });
+    }
+  }
+
+  /**
+   * Persist how far an incoming transfer was written (only for transfers written to a file)
+   */
+  private saveIncomingState(transfer: IncomingTransfer, progress: { nextIndex: number, bytesWritten: number, carry: string }): void {
+    if (!this.stateDir || !transfer.sink.path || transfer.completed) return;
+
+    const now = Date.now();
+    if (now - transfer.savedAt < STATE_SAVE_INTERVAL) return;
+    transfer.savedAt = now;
+
+    const { metadata } = transfer;
+    writeState(statePath(this.stateDir, 'incoming', transfer.fileId), {
+      fileId: transfer.fileId,
+      destination: transfer.sink.path,
+      name: metadata.name,
+      size: metadata.size,
+      sender: metadata.sender,
+      timestamp: metadata.timestamp,
+      ...progress,
+      // Hashes of streamed chunks written before the manifest arrived, checked on resume
+      unverifiedHashes: Array.from(transfer.unverifiedHashes).filter(([index]) => index < progress.nextIndex),
+      savedAt: now
+    });
+  }
+
+  /**
+   * Load the persisted progress of an incoming transfer, if it still matches the transfer and the partial file
+   */
+  private loadIncomingState(fileId: string, metadata: any, destination: string): any | null {
+    if (!this.stateDir) return null;
+
+    const file = statePath(this.stateDir, 'incoming', fileId);
+    const state = readState(file);
+    if (!state) return null;
+
+    let partialSize = -1;
+    try {
+      partialSize = fs.statSync(destination).size;
+    } catch (e) {
+      // Partial file is gone
+    }
+
+    const hashes = this.chunkHashes.get(fileId);
+    const unverified: [number, string][] = Array.isArray(state.unverifiedHashes) ? state.unverifiedHashes : [];
+    const valid =
+      state.destination === destination &&
+      state.sender === metadata.sender &&
+      state.timestamp === metadata.timestamp &&
+      typeof state.nextIndex === 'number' &&
+      typeof state.bytesWritten === 'number' &&
+      partialSize >= state.bytesWritten &&
+      (!hashes || unverified.every(([index, hash]) => hashes[index] === hash));
+
+    if (!valid) {
+      console.log(`🗑️ Discarding stale transfer state for ${fileId}`);
+      removeState(file);
+      return null;
+    }
+
+    console.log(`♻️ Resuming ${metadata.name} from chunk ${state.nextIndex} (${this.formatSize(state.bytesWritten)} already written)`);
+    return { ...state, unverifiedHashes: unverified };
+  }
+
+  /**
+   * Rehydrate the retransmission cache from files we were sending before a restart
+   */
+  private restoreOutgoing(): void {
+    for (const name of fs.readdirSync(this.stateDir!)) {
+      if (!name.startsWith('outgoing-') || !name.endsWith('.json')) continue;
+
+      const file = path.join(this.stateDir!, name);
+      const state = readState(file);
+      let stat: fs.Stats | null = null;
+      try {
+        stat = state ? fs.statSync(state.path) : null;
+      } catch (e) {
+        // Source file is gone
+      }
+
+      // The source must be unchanged, or the signed chunk hashes no longer match it
+      const expired = typeof state?.metadata?.expiresAt === 'number'
+        ? Date.now() > state.metadata.expiresAt
+        : Date.now() - state?.timestamp > this.CACHE_RETENTION;
+      if (!state || !stat || stat.size !== state.size || stat.mtimeMs !== state.mtimeMs || expired) {
+        removeState(file);
+        continue;
+      }
+
+      const fileKey = state.fileKey ? new Uint8Array(fromBase64(state.fileKey)) : null;
+      this.chunkCache.set(state.fileId, {
+        openReader: () => fileReader(state.path, state.chunkBytes),
+        fileKey,
+        metadata: state.metadata,
+        timestamp: state.timestamp,
+        path: state.path
+      });
+      const control = this.trackOutgoing(state.fileId, { name: state.metadata?.name || state.fileId, size: state.size });
+      control.uploaded = true;
+      control.info.chunks = state.metadata?.totalChunks || 0;
+      if (state.metadata?.expiresAt) {
+        this.expiries.set(state.fileId, state.metadata.expiresAt);
+      }
+      this.setStatus(control.info, 'waiting');
+      if (fileKey) {
+        this.fileKeys.set(state.fileId, {
+          key: fileKey,
+          sender: this.address(),
+          timestamp: state.timestamp,
+          recipients: state.recipients || undefined,
+          code: state.code || undefined,
+          attempts: 0
+        });
+      }
+
+      console.log(`♻️ Restored ${state.metadata?.name || state.fileId} (${state.fileId}) for retransmission`);
+    }
+  }
+
+  /**
+   * Persist what is needed to serve retransmissions of a file sent from disk after a restart
+   */
+  private saveOutgoingState(fileId: string): void {
+    const cached = this.chunkCache.get(fileId);
+    if (!this.stateDir || !cached || !cached.path) return;
+
+    const stat = fs.statSync(cached.path);
+    writeState(statePath(this.stateDir, 'outgoing', fileId), {
+      fileId,
+      path: cached.path,
+      size: stat.size,
+      mtimeMs: stat.mtimeMs,
+      chunkBytes: cached.metadata.chunkBytes,
+      fileKey: cached.fileKey ? toBase64(toBuffer(cached.fileKey)) : null,
+      recipients: this.fileKeys.get(fileId)?.recipients || null,
+      code: this.fileKeys.get(fileId)?.code || null,
+      metadata: cached.metadata,
+      timestamp: cached.timestamp
+    });
+  }
+
+  /**
+   * Start tracking a file we send, so it can be cancelled, paused and reported
+   * @param signal Cancels the transfer when aborted
+   */
+  private trackOutgoing(fileId: string, file: { name: string, size?: number }, signal?: AbortSignal): OutgoingTransfer {
+    const control: OutgoingTransfer = {
+      fileId,
+      controller: new AbortController(),
+      paused: false,
+      resume: null,
+      peers: new Set(),
+      delivered: new Set(),
+      uploaded: false,
+      written: 0,
+      startUpload: null,
+      connections: new Set(),
+      acks: new Map(),
+      flow: createFlowControl(),
+      info: this.trackTransfer({
+        transferId: fileId,
+        direction: 'outgoing',
+        filename: file.name,
+        size: file.size ?? 0,
+        chunks: 0,
+        status: 'sending'
+      }),
+      progressAt: 0
+    };
+    this.outgoing.set(fileId, control);
+
+    signal?.addEventListener('abort', () => {
+      if (this.outgoing.get(fileId) === control) this.cancelOutgoing(control);
+    }, { once: true });
+    return control;
+  }
+
+  /**
+   * Stop sending a file: the upload stops, the metadata is removed from the channel and receivers are told
+   */
+  private cancelOutgoing(control: OutgoingTransfer): void {
+    const { fileId } = control;
+    control.controller.abort();
+    control.resume?.();
+    this.setStatus(control.info, 'cancelled');
+
+    this.notifyPeers(control, 'cancel');
+    this.forgetOutgoing(fileId);
+    this.tombstone(fileId);
+    this.fileKeys.delete(fileId);
+
+    console.log(`🛑 Cancelled sending ${fileId}`);
+    this.emit('transfer-cancelled', { transferId: fileId, by: 'local' });
+  }
+
+  /**
+   * Stop serving a file we sent: retransmission source, persisted state and upload control
+   */
+  private forgetOutgoing(fileId: string): void {
+    this.outgoing.get(fileId)?.connections.forEach((connection) => connection.close());
+    this.chunkCache.delete(fileId);
+    this.outgoing.delete(fileId);
+    this.removeTransferState('outgoing', fileId);
+  }
+
+  /**
+   * Null out the metadata and chunks of a transfer in GunDB, so relays drop its data
+   * @param root Gun node holding the `files` and `chunks` nodes (channel, or graph root for legacy transfers)
+   */
+  private tombstone(fileId: string, root: any = this.yumi.channel): void {
+    this.expiries.delete(fileId);
+    if (this.fileKeys.get(fileId)?.sender === this.address()) {
+      this.fileKeys.delete(fileId);
+    }
+
+    const chunks = root.get('chunks').get(fileId);
+    chunks.map().once((chunk: any, chunkId: string) => {
+      if (!chunk) return;
+      chunks.get(chunkId).put({ data: null, index: null, fileId: null, timestamp: null });
+      chunks.get(chunkId).put(null);
+    });
+    chunks.put(null);
+    root.get('files').get(fileId).put(null);
+    this.yumi.channel.get('seeds').get(fileId).put(null);
+    console.log(`🧹 Removed ${fileId} from GunDB`);
+  }
+
+  /**
+   * Forget the persisted state of a transfer
+   */
+  private removeTransferState(kind: 'incoming' | 'outgoing', fileId: string): void {
+    if (this.stateDir) {
+      removeState(statePath(this.stateDir, kind, fileId));
+    }
+  }
+
+  /**
+   * Show progress every 10% or every 100 chunks
+   */
+  private logReceiveProgress(transfer: IncomingTransfer): void {
+    const total = transfer.metadata.totalChunks;
+    const count = transfer.received.size;
+
+    if (typeof total !== 'number') {
+      if (count % 100 === 0) {
+        console.log(`📦 Progress: ${count} chunks`);
+      }
+      return;
+    }
+
+    if (count % Math.max(1, Math.floor(total / 10)) === 0 || count % 100 === 0) {
+      const progress = Math.round((count / total) * 100);
+      console.log(`📦 Progress: ${progress}% (${count}/${total})`);
+    }
+  }
+
+  /**
+   * Finish the transfer once every chunk is in, returns true if it was completed now
+   */
+  private completeIfDone(transfer: IncomingTransfer): boolean {
+    const total = transfer.metadata.totalChunks;
+    if (transfer.completed || typeof total !== 'number' || transfer.received.size < total) {
+      return false;
+    }
+
+    // Streamed transfers can only complete against their signed manifest
+    if (transfer.metadata.streaming && !this.chunkHashes.has(transfer.fileId)) {
+      return false;
+    }
+
+    transfer.completed = true;
+    this.finishTransfer(transfer);
+    return true;
+  }
+
+  /**
+   * Check the manifest of a streamed transfer and the chunks accepted before it arrived
+   */
+  private applyManifest(transfer: IncomingTransfer, raw: any): void {
+    const fileId = transfer.fileId;
+    if (transfer.completed || this.chunkHashes.has(fileId) || !raw.merkleRoot) return;
+
+    // GunDB may deliver the update in parts, wait for a consistent one
+    const integrityError = this.verifyMetadata(raw, fileId);
+    if (integrityError) {
+      console.log(`⏳ Manifest for ${fileId} not valid yet: ${integrityError}`);
+      return;
+    }
+
+    let size = raw.size;
+    if (raw.encrypted) {
+      const entry = this.fileKeys.get(fileId);
+      const info = entry ? openData(raw.info, entry.key) : null;
+      if (info) size = JSON.parse(toString(info)).size;
+    }
+    transfer.metadata.totalChunks = raw.totalChunks;
+    transfer.metadata.size = size;
+    console.log(`📜 Manifest received for ${transfer.metadata.name}: ${raw.totalChunks} chunks`);
+
+    const hashes = this.chunkHashes.get(fileId)!;
+    for (const [index, hash] of transfer.unverifiedHashes) {
+      if (hash === hashes[index]) continue;
+
+      if (index < transfer.nextIndex) {
+        this.failTransfer(transfer, `Integrity check failed for chunk ${index}`);
+        return;
+      }
+
+      // Not written yet: drop it so it is fetched again
+      console.log(`⚠️ Rejecting chunk ${index} of ${fileId}: hash mismatch`);
+      transfer.received.delete(index);
+      transfer.pending.delete(index);
+    }
+    transfer.unverifiedHashes.clear();
+
+    this.completeIfDone(transfer);
+  }
+
+  /**
+   * Schedule the next acknowledgement to the sender (replacing a scheduled one)
+   */
+  private scheduleAck(transfer: IncomingTransfer, delay: number = ACK_INTERVAL): void {
+    if (transfer.ackTimer) {
+      clearTimeout(transfer.ackTimer);
+    }
+    transfer.ackTimer = setTimeout(() => {
+      transfer.ackTimer = null;
+      this.updateSeed(transfer);
+      this.fetchFromSeeders(transfer);
+      this.sendAck(transfer);
+    }, delay);
+  }
+
+  /**
+   * Report the chunks we have to the sender, which answers with a bounded batch of the gaps.
+   * Runs every ACK_INTERVAL while receiving, and right away while the sender has more gaps to resend.
+   */
+  private sendAck(transfer: IncomingTransfer): void {
+    if (transfer.completed || transfer.paused || transfer.acking) return;
+    const { metadata, fileId } = transfer;
+
+    // Chunks come over the data channel, an ack would make the sender upload them to GunDB
+    if (transfer.direct) {
+      if (!transfer.peerPaused && Date.now() - transfer.lastChunkAt > stallTimeout(transfer)) {
+        this.dropDirect(transfer, transfer.direct, 'stalled');
+      } else {
+        this.scheduleAck(transfer);
+      }
+      return;
+    }
+
+    // Nothing to ask while the sender holds its upload or is out of reach
+    if (transfer.peerPaused || !metadata.sender || !this.yumi.peers[metadata.sender]) {
+      this.scheduleAck(transfer);
+      return;
+    }
+
+    let answered = false;
+    const onReply = (response: any) => {
+      if (answered) return;
+      answered = true;
+      clearTimeout(timer);
+      transfer.acking = false;
+      if (transfer.completed || transfer.paused) return;
+
+      if (!response) {
+        console.log(`⏰ No reply from the sender of ${metadata.name} within ${Math.round(stallTimeout(transfer) / 1000)}s`);
+      } else if (!response.success) {
+        console.log(`❌ Sender cannot resend chunks of ${metadata.name}: ${response.error}`);
+      } else if (response.chunks.length > 0) {
+        console.log(`🔄 Sender resends ${response.chunks.length} of ${response.missing} missing chunks of ${metadata.name}`);
+        this.emit('chunk-missing', { ...transfer.info }, response.chunks.map((chunk: any) => chunk.index));
+        for (const chunk of response.chunks) {
+          this.acceptChunk(transfer, chunk.index, chunk.data);
+        }
+        if (this.completeIfDone(transfer)) return;
+      }
+
+      this.scheduleAck(transfer, response?.more ? 0 : ACK_INTERVAL);
+    };
+
+    // A sender that went silent is asked again once the transfer counts as stalled
+    const timer = setTimeout(() => onReply(null), stallTimeout(transfer));
+    transfer.acking = true;
+    try {
+      const proof = this.proofFor(fileId);
+      this.yumi.rpc(metadata.sender, 'chunk-ack', { fileId, ...ackWindow(transfer.received, transfer.nextIndex), proof }, onReply);
+    } catch (error) {
+      onReply({ success: false, error: (error as Error).message });
+    }
+  }
+
+  /**
+   * Write out the remaining data and emit the received file
+   */
+  private async finishTransfer(transfer: IncomingTransfer): Promise<void> {
+    const { metadata, fileId } = transfer;
+    const hashes = this.chunkHashes.get(fileId);
+    const fileKey = this.fileKeys.get(fileId)?.key ?? null;
+    this.closeTransfer(transfer);
+
+    try {
+      if (transfer.carry) {
+        throw new Error('Truncated chunk data');
+      }
+      await transfer.writing;
+      if (transfer.writeError) return; // Already failed
+      const data = await transfer.sink.close();
+
+      // Emit file received event
+      this.emit('file-received', {
+        filename: metadata.name,
+        size: metadata.size,
+        ...(data ? { data: data.buffer } : { path: transfer.sink.path }),
+        ...(transfer.files ? { files: transfer.files } : {}),
+        fileId: fileId
+      });
+
+      console.log(`🎉 File received: ${metadata.name} (${this.formatSize(metadata.size)})`);
+      this.removeTransferState('incoming', fileId);
+      this.setStatus(transfer.info, 'complete');
+
+      // Keep serving the whole file to other receivers
+      const sinkPath = transfer.sink.path;
+      const files = transfer.files;
+      const openReader = data ? async () => bufferReader(data, metadata.chunkBytes)
+        : sinkPath && files ? () => bundleReader(sinkPath, files, metadata.chunkBytes)
+        : sinkPath ? () => fileReader(sinkPath, metadata.chunkBytes)
+        : null;
+      if (this.reshare && hashes && metadata.encoding === CHUNK_ENCODING && openReader) {
+        this.seeds.set(fileId, { openReader, fileKey, metadata, hashes, have: hashes.length, timestamp: Date.now() });
+        this.advertiseSeed(fileId);
+        console.log(`🌱 Sharing ${metadata.name} with other receivers`);
+      } else {
+        this.stopSeeding(fileId);
+      }
+
+      // Tell the sender, which reports the file as delivered
+      if (metadata.sender) {
+        try {
+          const proof = fileKey ? receiverProof(fileKey, fileId, this.address()) : undefined;
+          this.yumi.rpc(metadata.sender, 'transfer-confirmed', { fileId, proof }, () => {});
+        } catch (e) {
+          // Sender is gone
+        }
+      }
+    } catch (error) {
+      console.error(`❌ Error writing file ${metadata.name}:`, error);
+      this.stopSeeding(fileId);
+      await transfer.sink.abort();
+      this.removeTransferState('incoming', fileId);
+      const reason = (error as Error).message;
+      this.setStatus(transfer.info, 'failed', reason);
+      this.emit('transfer-failed', { transferId: fileId, filename: metadata.name, reason });
+      this.emit('failed', { ...transfer.info });
+    }
+  }
+
+  /**
+   * Abort an incoming transfer
+   */
+  private async failTransfer(transfer: IncomingTransfer, reason: string): Promise<void> {
+    if (transfer.info.finishedAt) return; // Already failed or cancelled
+    transfer.completed = true;
+    this.closeTransfer(transfer);
+    this.stopSeeding(transfer.fileId);
+    await transfer.sink.abort().catch(() => {});
+    this.removeTransferState('incoming', transfer.fileId);
+
+    console.log(`❌ Transfer ${transfer.fileId} failed: ${reason}`);
+    this.setStatus(transfer.info, 'failed', reason);
+    this.emit('transfer-failed', { transferId: transfer.fileId, filename: transfer.metadata.name, reason });
+    this.emit('failed', { ...transfer.info });
+  }
+
+  /**
+   * Stop an incoming transfer and discard its partial data
+   * @param by Whether we cancelled it, or the sender did
+   */
+  private async cancelIncoming(transfer: IncomingTransfer, by: 'local' | 'peer'): Promise<void> {
+    const { fileId, metadata } = transfer;
+    transfer.completed = true;
+    this.setStatus(transfer.info, 'cancelled');
+    this.closeTransfer(transfer);
+    this.stopSeeding(fileId);
+    if (by === 'local') {
+      this.sendControl(metadata.sender, fileId, 'cancel');
+    }
+    await transfer.writing.catch(() => {});
+    await transfer.sink.abort();
+    this.removeTransferState('incoming', fileId);
+
+    console.log(`🛑 Transfer ${fileId} (${metadata.name}) cancelled${by === 'peer' ? ' by the sender' : ''}`);
+    this.emit('transfer-cancelled', by === 'peer' ? { transferId: fileId, by, peer: metadata.sender } : { transferId: fileId, by });
+  }
+
+  /**
+   * The sender paused or resumed its upload
+   */
+  private setPeerPaused(transfer: IncomingTransfer, paused: boolean): void {
+    transfer.peerPaused = paused;
+    transfer.lastChunkAt = Date.now();
+    if (!paused && !transfer.paused) {
+      this.scheduleAck(transfer);
+    }
+
+    console.log(`${paused ? '⏸️' : '▶️'} Sender ${paused ? 'paused' : 'resumed'} ${transfer.metadata.name}`);
+    this.emit(paused ? 'transfer-paused' : 'transfer-resumed', { transferId: transfer.fileId, by: 'peer', peer: transfer.metadata.sender });
+  }
+
+  /**
+   * Ask the sender of a direct transfer for a WebRTC data channel, signaled over Yumi RPC.
+   * Chunks arriving over it are checked like those from GunDB.
+   */
+  private async connectDirect(transfer: IncomingTransfer): Promise<void> {
+    const { metadata, fileId } = transfer;
+    const connection = new this.peerConnection!({ iceServers: this.iceServers });
+    transfer.direct = connection;
+    const timer = setTimeout(() => this.dropDirect(transfer, connection, `no connection within ${DIRECT_TIMEOUT / 1000}s`), DIRECT_TIMEOUT);
+
+    try {
+      const channel = connection.createDataChannel('kunai', { ordered: true });
+      channel.addEventListener('open', () => {
+        clearTimeout(timer);
+        console.log(`📡 Direct connection to ${metadata.sender.slice(0, 12)}... for ${metadata.name}`);
+      });
+      channel.addEventListener('close', () => {
+        clearTimeout(timer);
+        this.dropDirect(transfer, connection, 'connection closed');
+      });
+      channel.addEventListener('message', (event: MessageEvent) => {
+        if (transfer.completed || transfer.paused) return;
+        let chunk: any;
+        try {
+          chunk = JSON.parse(event.data);
+        } catch (e) {
+          return;
+        }
+        if (!Number.isInteger(chunk?.index) || typeof chunk.data !== 'string') return;
+
+        if (this.acceptChunk(transfer, chunk.index, chunk.data)) {
+          this.logReceiveProgress(transfer);
+          this.completeIfDone(transfer);
+        }
+      });
+      connection.addEventListener('connectionstatechange', () => {
+        if (connection.connectionState === 'failed') {
+          this.dropDirect(transfer, connection, 'NAT traversal failed');
+        }
+      });
+
+      await connection.setLocalDescription(await connection.createOffer());
+      await iceGathered(connection);
+      const { base } = ackWindow(transfer.received, transfer.nextIndex);
+      const reply = await new Promise<any>((resolve) => {
+        const proof = this.proofFor(fileId);
+        this.yumi.rpc(metadata.sender, 'rtc-offer', { fileId, sdp: connection.localDescription!.sdp, from: base, proof }, resolve);
+      });
+      if (transfer.direct !== connection) return;
+      if (!reply.success) {
+        throw new Error(reply.error || 'No answer');
+      }
+      await connection.setRemoteDescription({ type: 'answer', sdp: reply.sdp });
+    } catch (error) {
+      clearTimeout(timer);
+      this.dropDirect(transfer, connection, (error as Error).message);
+    }
+  }
+
+  /**
+   * Close a direct connection. With a reason, the transfer goes on through GunDB:
+   * our acks make the sender upload the chunks.
+   */
+  private dropDirect(transfer: IncomingTransfer, connection: RTCPeerConnection, reason: string | null): void {
+    if (transfer.direct !== connection) return;
+    transfer.direct = null;
+    connection.close();
+
+    if (reason && !transfer.completed && !transfer.paused) {
+      console.log(`📡 No direct connection for ${transfer.metadata.name} (${reason}), receiving through GunDB`);
+      this.scheduleAck(transfer, 0);
+    }
+  }
+
+  /**
+   * Track the other receivers that advertise chunks of a file we receive
+   */
+  private listenForSeeders(transfer: IncomingTransfer): void {
+    transfer.seedListener = this.yumi.channel.get('seeds').get(transfer.fileId).map().on((seed: any, address: string) => {
+      if (address === this.address() || address === transfer.metadata.sender) return;
+      if (!seed || typeof seed.have !== 'number' || Date.now() - seed.timestamp > this.CACHE_RETENTION) {
+        transfer.seeders.delete(address);
+        return;
+      }
+
+      const known = transfer.seeders.get(address);
+      if (known) {
+        known.have = seed.have;
+      } else {
+        transfer.seeders.set(address, { have: seed.have, busy: false, failures: 0 });
+      }
+    });
+  }
+
+  /**
+   * Ask each idle seeder for a different batch of the chunks we miss, in parallel.
+   * A seeder that answers asks for the next batch right away.
+   */
+  private fetchFromSeeders(transfer: IncomingTransfer): void {
+    if (transfer.completed || transfer.paused) return;
+    const { fileId, metadata } = transfer;
+
+    for (const [address, seeder] of transfer.seeders) {
+      if (seeder.busy || !this.yumi.peers[address]) continue;
+
+      const batch: number[] = [];
+      for (let index = transfer.nextIndex; index < seeder.have && batch.length < RETRANSMIT_BATCH; index++) {
+        if (!transfer.received.has(index) && !transfer.requested.has(index)) batch.push(index);
+      }
+      if (batch.length === 0) continue;
+
+      seeder.busy = true;
+      batch.forEach((index) => transfer.requested.add(index));
+
+      let answered = false;
+      const onReply = (response: any) => {
+        if (answered) return;
+        answered = true;
+        clearTimeout(timer);
+        seeder.busy = false;
+        batch.forEach((index) => transfer.requested.delete(index));
+        if (transfer.completed) return;
+
+        let accepted = 0;
+        for (const chunk of response?.success ? response.chunks : []) {
+          if (this.acceptChunk(transfer, chunk.index, chunk.data)) accepted++;
+        }
+
+        // Seeders that keep failing are dropped, others are asked for more
+        seeder.failures = accepted > 0 ? 0 : seeder.failures + 1;
+        if (seeder.failures >= 3) {
+          console.log(`🌱 Not fetching ${metadata.name} from ${address.slice(0, 12)}... any more`);
+          transfer.seeders.delete(address);
+        }
+        if (accepted > 0) {
+          this.logReceiveProgress(transfer);
+          if (this.completeIfDone(transfer)) return;
+          this.fetchFromSeeders(transfer);
+        }
+      };
+
+      const timer = setTimeout(() => onReply(null), stallTimeout(transfer));
+      try {
+        this.yumi.rpc(address, 'request-chunks', { fileId, missingChunks: batch, proof: this.proofFor(fileId) }, onReply);
+      } catch (error) {
+        onReply(null);
+      }
+    }
+  }
+
+  /**
+   * Advertise the chunks written so far of a file we receive and serve
+   */
+  private updateSeed(transfer: IncomingTransfer): void {
+    const seed = this.seeds.get(transfer.fileId);
+    if (!seed || seed.have >= transfer.nextIndex) return;
+
+    seed.have = transfer.nextIndex;
+    seed.timestamp = Date.now();
+    this.advertiseSeed(transfer.fileId);
+  }
+
+  /**
+   * Tell other receivers how many chunks of a file we serve (all below `have`)
+   */
+  private advertiseSeed(fileId: string): void {
+    const seed = this.seeds.get(fileId);
+    if (!seed) return;
+    this.yumi.channel.get('seeds').get(fileId).get(this.address()).put({ have: seed.have, timestamp: Date.now() });
+  }
+
+  /**
+   * Stop serving a file as a receiver and withdraw the advertisement
+   */
+  private stopSeeding(fileId: string): void {
+    if (!this.seeds.delete(fileId)) return;
+    this.yumi.channel.get('seeds').get(fileId).get(this.address()).put(null);
+  }
+
+  /**
+   * Detach listeners and timers of an incoming transfer and forget its keys
+   */
+  private closeTransfer(transfer: IncomingTransfer): void {
+    if (transfer.ackTimer) {
+      clearTimeout(transfer.ackTimer);
+      transfer.ackTimer = null;
+    }
+    if (transfer.direct) {
+      this.dropDirect(transfer, transfer.direct, null);
+    }
+
+    // CRITICAL: Detach the chunk listener once done
+    if (transfer.chunkListener && typeof transfer.chunkListener.off === 'function') {
+      transfer.chunkListener.off();
+    }
+    if (transfer.manifestListener && typeof transfer.manifestListener.off === 'function') {
+      transfer.manifestListener.off();
+    }
+    if (transfer.seedListener && typeof transfer.seedListener.off === 'function') {
+      transfer.seedListener.off();
+    }
+
+    this.incoming.delete(transfer.fileId);
+    this.fileKeys.delete(transfer.fileId);
+    this.chunkHashes.delete(transfer.fileId);
+  }
+  /**
+   * Get the transfer key (boxed for us, or fetched from the sender) and decrypt the file metadata
+   */
+  private async unsealMetadata(metadata: any, fileId: string): Promise<any> {
+    const keys = recipientKeys(metadata);
+    let key = keys && metadata.ek ? openBoxedKey(keys[this.address()], metadata.ek, this.yumi.keyPairEncrypt.secretKey) : null;
+    if (!key) {
+      // The boxed key is unreadable after a restart (Yumi encryption keys are per session)
+      if (!this.yari) {
+        throw new Error('File key was not boxed for this session');
+      }
+      key = await this.requestFileKey(metadata.sender, fileId);
+    }
+    return this.openMetadata(metadata, fileId, key);
+  }
+
+  /**
+   * Decrypt the file info with the transfer key, which is kept to decrypt the chunks
+   */
+  private openMetadata(metadata: any, fileId: string, key: Uint8Array): any {
+    const info = openData(metadata.info, key);
+    if (!info) {
+      throw new Error('Metadata decryption failed');
+    }
+
+    this.fileKeys.set(fileId, { key, sender: metadata.sender, timestamp: Date.now() });
+
+    return {
+      ...metadata,
+      ...JSON.parse(toString(info)),
+      encrypted: true
+    };
+  }
+
+  /**
+   * Request the per-transfer key from sender (SEA-encrypted for us)
+   */
+  private async requestFileKey(senderAddress: string, fileId: string): Promise<Uint8Array> {
+    await this.yari!.waitForPeer(senderAddress, this.transferTimeout);
+
+    return new Promise((resolve, reject) => {
+      console.log(`🔑 Requesting file key for ${fileId} from ${senderAddress.slice(0, 12)}...`);
+
+      this.yumi.rpc(senderAddress, 'request-file-key', { fileId }, async (response: any) => {
+        if (!response || !response.success) {
+          reject(new Error(response?.error || 'Key request rejected'));
+          return;
+        }
+
+        try {
+          const key = await this.yari!.decryptFrom(senderAddress, response.key);
+          if (typeof key !== 'string') {
+            throw new Error('Invalid file key');
+          }
+          resolve(new Uint8Array(fromBase64(key)));
+        } catch (error) {
+          reject(error);
+        }
+      });
+    });
+  }
+
+  /**
+   * Verify chunk data against the signed hash list and decrypt it if the transfer is encrypted.
+   * Returns null for rejected chunks, which stay missing and are resent after the next ack.
+   */
+  private readChunk(transfer: IncomingTransfer, index: number, data: string): Uint8Array | string | null {
+    const { fileId, metadata } = transfer;
+    const hashes = this.chunkHashes.get(fileId);
+    if (hashes && hashChunk(data) !== hashes[index]) {
+      console.log(`⚠️ Rejecting chunk ${index} of ${fileId}: hash mismatch`);
+      return null;
+    }
+
+    const entry = this.fileKeys.get(fileId);
+    const chunk = decodeChunk(data, entry ? entry.key : null, index, metadata);
+    if (chunk === null) {
+      console.log(`⚠️ Dropping chunk ${index} of ${fileId}: cannot ${entry ? 'decrypt' : 'decode'} it`);
+    }
+    return chunk;
+  }
+
+  /**
+   * Send file via GunDB (decentralized approach)
+   * @param file File path (Node, read from disk chunk by chunk), browser File/Blob, or file info when `data` is given
+   * @param data File contents, if already in memory
+   * @param options `recipients` limits the transfer to these Yumi addresses, `open` publishes it without a secret code
+   * @returns Transfer code to share with the receiver
+   */
+  async sendFile(
+    file: string | File | { name: string; size: number; type?: string },
+    data?: ArrayBuffer | Uint8Array,
+    options?: SendOptions
+  ): Promise<string> {
+    const chunkBytes = this.chunkBytes();
 
-    // Initialize Yumi or Yari based on encryption setting
-    if (this.encrypted) {
-      console.log('🔐 Kunai initialized with encryption (Yari)');
-      console.log('📡 Using channel:', this.channel);
-      this.yari = new Yari(this.channel, opts);
-      this.yumi = this.yari.yumi;
-    } else {
-      console.log('🥷 Kunai initialized without encryption (Yumi)');
-      console.log('📡 Using channel:', this.channel);
-      this.yumi = new Yumi(this.channel, opts);
+    if (typeof file === 'string') {
+      const { size } = await fs.promises.stat(file);
+      return this.publishFile({ name: path.basename(file), size }, () => fileReader(file, chunkBytes), options, path.resolve(file));
     }
 
-    this.setupHandlers();
-    this.setupChunkRetransmission();
-    this.startCacheCleanup();
+    if (data) {
+      const bytes = data instanceof ArrayBuffer ? new Uint8Array(data) : data;
+      return this.publishFile(file, async () => bufferReader(bytes, chunkBytes), options);
+    }
+
+    if (typeof Blob !== 'undefined' && file instanceof Blob) {
+      const blob = file;
+      return this.publishFile(file, async () => blobReader(blob, chunkBytes), options);
+    }
+
+    throw new Error('File data is required for GunDB transfer');
   }
 
-  private setupHandlers(): void {
-    this.yumi.on('ready', () => {
-      this.emit('ready');
-      
-      // Setup GunDB file transfer listeners
-      this.setupGunDBFileListeners();
-    });
+  /**
+   * Send a directory (Node) as one transfer: its files are read in order as a single byte range and
+   * a manifest of relative paths, sizes and modes lets the receiver recreate the tree
+   */
+  async sendDirectory(dirPath: string, options?: SendOptions): Promise<string> {
+    const files = await listDirectory(dirPath);
+    const size = files.reduce((total, entry) => total + entry.size, 0);
+    const chunkBytes = this.chunkBytes();
 
-    this.yumi.on('connections', (count: number) => {
-      this.emit('connections', count);
-    });
+    console.log(`📁 Bundling ${files.length} files from ${dirPath} (${this.formatSize(size)})`);
+    return this.publishFile(
+      { name: path.basename(path.resolve(dirPath)), size, type: BUNDLE_TYPE, files },
+      () => bundleReader(dirPath, files, chunkBytes),
+      options
+    );
   }
 
   /**
-   * Setup RPC handlers for chunk retransmission
+   * Send a stream of unknown or large size without buffering it: chunks are uploaded as they are read,
+   * and the signed chunk hashes follow in a manifest once the stream ends
    */
-  private setupChunkRetransmission(): void {
-    // Handle request for missing chunks
-    this.yumi.register('request-chunks', (address: string, args: any, callback: (result: any) => void) => {
-      const { fileId, missingChunks } = args;
-      
-      console.log(`📨 Received request for ${missingChunks.length} missing chunks from ${address.slice(0, 12)}...`);
-      
-      const cached = this.chunkCache.get(fileId);
-      if (!cached) {
-        console.log(`❌ No cached chunks for ${fileId}`);
-        callback({ success: false, error: 'File not in cache' });
-        return;
-      }
-      
-      // Collect requested chunks
-      const chunks: { index: number, data: string }[] = [];
-      for (const index of missingChunks) {
-        const chunkData = cached.chunks.get(index);
-        if (chunkData) {
-          chunks.push({ index, data: chunkData });
-        }
-      }
-      
-      console.log(`✅ Sending ${chunks.length} chunks to ${address.slice(0, 12)}...`);
-      
-      callback({
-        success: true,
-        fileId,
-        chunks
-      });
+  async sendStream(source: KunaiSource, file: { name: string; size?: number; type?: string }, options?: SendOptions): Promise<string> {
+    if (options?.signal?.aborted) {
+      throw abortError();
+    }
+    const { fileId, code, secret } = this.generateTransferCode(options);
+    const control = this.trackOutgoing(fileId, file, options?.signal);
+    const chunkBytes = this.chunkBytes();
+    const fileKey = this.createFileKey(fileId, options?.recipients, secret);
+    const knownChunks = typeof file.size === 'number' ? Math.ceil(file.size / chunkBytes) : undefined;
+    const format: ChunkFormat = {
+      encoding: CHUNK_ENCODING,
+      compression: this.shouldCompress(file, options) ? COMPRESSION : undefined
+    };
+    control.info.chunks = knownChunks ?? 0;
+
+    console.log(`📤 Streaming file via GunDB: ${file.name} - ID: ${fileId}`);
+
+    // 1. Save signed header, receivers start collecting chunks right away
+    const header = this.signMetadata(fileId, {
+      ...this.describeFile({ ...file, size: file.size ?? 0 }, fileKey),
+      ...this.accessFields(fileId),
+      streaming: true,
+      totalChunks: knownChunks,
+      chunkBytes,
+      ...format,
+      timestamp: Date.now(),
+      expiresAt: Date.now() + this.expiry,
+      sender: this.address()
     });
+    this.yumi.channel.get('files').get(fileId).put(header);
+    this.expiries.set(fileId, header.expiresAt);
+    this.emit('transfer-started', fileId);
 
-    // Handle completion confirmation
-    this.yumi.register('transfer-confirmed', (address: string, args: any, callback: (result: any) => void) => {
-      const { fileId } = args;
-      
-      console.log(`✅ Transfer confirmed by ${address.slice(0, 12)}... for ${fileId}`);
-      
-      // Remove from cache
-      this.chunkCache.delete(fileId);
-      
-      callback({ success: true });
+    // Recent chunks are kept for retransmission, a stream cannot be re-read
+    const recent = new Map<number, Uint8Array>();
+    this.chunkCache.set(fileId, {
+      openReader: async () => ({
+        totalChunks: recent.size,
+        read: async (index: number) => {
+          const bytes = recent.get(index);
+          if (!bytes) throw new Error('Chunk no longer cached: ' + index);
+          return bytes;
+        },
+        close: async () => {}
+      }),
+      fileKey,
+      metadata: header,
+      timestamp: Date.now()
     });
+
+    // 2. Upload chunks as they are read from the source
+    const hashes: string[] = [];
+    let size = 0;
+    async function* encoded(): AsyncGenerator<string> {
+      let index = 0;
+      for await (const bytes of rechunk(source, chunkBytes)) {
+        recent.set(index, bytes);
+        recent.delete(index - STREAM_CACHE_CHUNKS);
+        size += bytes.length;
+
+        const chunk = encodeChunk(bytes, fileKey, index, format);
+        hashes.push(hashChunk(chunk));
+        index++;
+        yield chunk;
+      }
+    }
+    await this.uploadChunks(control, encoded(), knownChunks);
+
+    // 3. Save the signed manifest covering every chunk
+    const manifest = this.signMetadata(fileId, {
+      ...this.describeFile({ ...file, size }, fileKey),
+      ...this.accessFields(fileId),
+      streaming: true,
+      totalChunks: hashes.length,
+      chunkBytes,
+      ...format,
+      timestamp: header.timestamp,
+      expiresAt: header.expiresAt,
+      sender: header.sender,
+      chunkHashes: hashes.join(''),
+      merkleRoot: merkleRoot(hashes)
+    });
+    this.yumi.channel.get('files').get(fileId).put(manifest);
+    const cached = this.chunkCache.get(fileId);
+    if (cached) {
+      cached.metadata = manifest;
+      cached.timestamp = Date.now();
+    }
+    control.info.size = size;
+    control.info.chunks = hashes.length;
+    this.reportProgress(control, hashes.length, size);
+
+    console.log(`✅ File streamed to GunDB: ${fileId} (${this.formatSize(size)})`);
+    console.log(`💾 Keeping the last ${Math.min(recent.size, STREAM_CACHE_CHUNKS)} chunks for retransmission (retention: ${this.CACHE_RETENTION / 60000} min)`);
+    this.emit('transfer-complete', fileId);
+
+    return code;
   }
 
   /**
-   * Start periodic cache cleanup
+   * Publish a file with random chunk access: hashes are computed first so the
+   * signed metadata can carry them, then chunks are uploaded one by one
    */
-  private startCacheCleanup(): void {
-    setInterval(() => {
-      const now = Date.now();
-      const toDelete: string[] = [];
-      
-      for (const [fileId, cached] of this.chunkCache.entries()) {
-        if (now - cached.timestamp > this.CACHE_RETENTION) {
-          toDelete.push(fileId);
+  private async publishFile(
+    file: { name: string; size: number; type?: string; files?: BundleEntry[] },
+    openReader: () => Promise<ChunkReader>,
+    options?: SendOptions,
+    sourcePath?: string
+  ): Promise<string> {
+    if (options?.signal?.aborted) {
+      throw abortError();
+    }
+    const { fileId, code, secret } = this.generateTransferCode(options);
+    const control = this.trackOutgoing(fileId, file, options?.signal);
+    const fileKey = this.createFileKey(fileId, options?.recipients, secret);
+    const format: ChunkFormat = {
+      encoding: CHUNK_ENCODING,
+      compression: this.shouldCompress(file, options) ? COMPRESSION : undefined
+    };
+
+    // 1. Hash every chunk as it will be stored (only the hashes are kept in memory)
+    const hashes: string[] = [];
+    let reader = await openReader();
+    try {
+      for (let i = 0; i < reader.totalChunks; i++) {
+        if (control.controller.signal.aborted) throw abortError();
+        hashes.push(hashChunk(encodeChunk(await reader.read(i), fileKey, i, format)));
+      }
+    } finally {
+      await reader.close();
+    }
+    if (control.controller.signal.aborted) {
+      throw abortError();
+    }
+    const totalChunks = hashes.length;
+    control.info.chunks = totalChunks;
+
+    console.log(`📤 Sending file via GunDB: ${file.name} (${totalChunks} chunks) - ID: ${fileId}`);
+
+    // 2. Save signed metadata first
+    const metadata = this.signMetadata(fileId, {
+      ...this.describeFile(file, fileKey),
+      ...this.accessFields(fileId),
+      totalChunks: totalChunks,
+      chunkBytes: this.chunkBytes(),
+      ...format,
+      direct: this.peerConnection ? true : undefined,
+      timestamp: Date.now(),
+      expiresAt: Date.now() + this.expiry,
+      sender: this.address(),
+      chunkHashes: hashes.join(''),
+      merkleRoot: merkleRoot(hashes)
+    });
+
+    this.yumi.channel.get('files').get(fileId).put(metadata);
+    this.expiries.set(fileId, metadata.expiresAt);
+    this.emit('transfer-started', fileId);
+
+    // Keep the source for retransmission requests (files on disk survive a restart)
+    this.chunkCache.set(fileId, {
+      openReader,
+      fileKey,
+      metadata,
+      timestamp: Date.now(),
+      path: sourcePath
+    });
+    this.saveOutgoingState(fileId);
+
+    // 3. Save all the chunks, reading them again from the source
+    const upload = async () => {
+      const source = await openReader();
+      async function* encoded(): AsyncGenerator<string> {
+        for (let i = 0; i < totalChunks; i++) {
+          yield encodeChunk(await source.read(i), fileKey, i, format);
         }
       }
-      
-      for (const fileId of toDelete) {
-        console.log(`🗑️ Cleaning up cached chunks for ${fileId}`);
-        this.chunkCache.delete(fileId);
+      try {
+        await this.uploadChunks(control, encoded(), totalChunks);
+      } finally {
+        await source.close();
       }
-    }, 60000); // Check every minute
+
+      const cached = this.chunkCache.get(fileId);
+      if (cached) {
+        cached.timestamp = Date.now();
+        this.saveOutgoingState(fileId);
+      }
+
+      console.log(`✅ File uploaded to GunDB: ${fileId}`);
+      console.log(`💾 Keeping source of ${totalChunks} chunks for retransmission (retention: ${this.CACHE_RETENTION / 60000} min)`);
+      this.emit('transfer-complete', fileId);
+    };
+
+    // Direct transfers only upload once a receiver cannot connect directly (see 'chunk-ack')
+    if (metadata.direct) {
+      control.startUpload = () => {
+        control.startUpload = null;
+        console.log(`📤 Uploading ${fileId} to GunDB for a receiver without a direct connection`);
+        this.setStatus(control.info, 'sending');
+        upload().catch((error) => {
+          if ((error as Error).name !== 'AbortError') {
+            console.log(`❌ Cannot upload ${fileId}: ${(error as Error).message}`);
+          }
+        });
+      };
+      this.setStatus(control.info, 'waiting');
+      console.log(`📡 ${fileId} is waiting for receivers to connect directly`);
+      return code;
+    }
+
+    await upload();
+    return code;
   }
 
   /**
-   * Setup GunDB file transfer listeners
+   * Stream a file we send over a receiver's data channel, from the first chunk it is missing.
+   * If the channel breaks, the receiver falls back to GunDB.
    */
-  private setupGunDBFileListeners(): void {
-    console.log('📁 Setting up GunDB file transfer listeners...');
-    
-    const processedFiles = new Set<string>(); // Track processed files to avoid duplicates
-    
-    // Listen for all files (not just new ones)
-    this.yumi.gun.get('files').map().on((metadata: any, fileId: any) => {
-      if (!metadata || metadata.sender === this.address()) return; // Skip own files
-      if (processedFiles.has(fileId)) return; // Skip already processed files
-      
-      processedFiles.add(fileId);
-      console.log(`📥 File detected: ${metadata.name} (${metadata.totalChunks} chunks)`);
-      
-      let receivedChunks: { [key: number]: string } = {};
-      let collectedChunks = 0;
-      let isProcessing = false;
-      let timeoutId: NodeJS.Timeout | null = null;
-      const processedChunkIds = new Set<string>(); // Track processed chunks to avoid duplicates
-      
-      // Listen for chunks of this file using .map() with strict deduplication
-      const chunkListener = this.yumi.gun.get('chunks').get(fileId).map().on((chunk: any, chunkId: any) => {
-        // Prevent infinite loops and duplicate processing
-        if (!chunk || typeof chunk.index === 'undefined' || !chunk.data) return;
-        if (isProcessing) return;
-        if (processedChunkIds.has(chunkId)) return;
-        
-        processedChunkIds.add(chunkId);
-        
-        if (!receivedChunks[chunk.index]) {
-          receivedChunks[chunk.index] = chunk.data;
-          collectedChunks++;
-          
-          // Show progress every 10% or every 100 chunks
-          if (collectedChunks % Math.max(1, Math.floor(metadata.totalChunks / 10)) === 0 || 
-              collectedChunks % 100 === 0) {
-            const progress = Math.round((collectedChunks / metadata.totalChunks) * 100);
-            console.log(`📦 Progress: ${progress}% (${collectedChunks}/${metadata.totalChunks})`);
-          }
-        }
-        
-        // If all chunks received, reassemble file
-        if (collectedChunks >= metadata.totalChunks) {
-          isProcessing = true;
-          if (timeoutId) {
-            clearTimeout(timeoutId);
-            timeoutId = null;
-          }
-          
-          // CRITICAL: Detach this chunk listener once complete
-          if (chunkListener && typeof chunkListener.off === 'function') {
-            chunkListener.off();
-          }
-          
-          // Before reassembling, perform a comprehensive final sweep to catch any missed chunks
-          console.log(`🔍 Performing final sweep for missing chunks...`);
-          
-          // Do multiple passes to ensure we get everything (GunDB can be slow/async)
-          let sweepAttempts = 0;
-          const maxSweeps = 5; // More sweeps = better chance to find missing chunks
-          
-          const performSweep = () => {
-            sweepAttempts++;
-            const missingBefore = metadata.totalChunks - collectedChunks;
-            
-            this.yumi.gun.get('chunks').get(fileId).map().once((chunk: any, chunkId: any) => {
-              if (chunk && typeof chunk.index !== 'undefined' && chunk.data && !receivedChunks[chunk.index]) {
-                receivedChunks[chunk.index] = chunk.data;
-                collectedChunks++;
-              }
-            });
-            
-            setTimeout(() => {
-              const missingAfter = metadata.totalChunks - collectedChunks;
-              const foundInSweep = missingBefore - missingAfter;
-              
-              if (foundInSweep > 0) {
-                console.log(`🔄 Sweep ${sweepAttempts}: Found ${foundInSweep} more chunks, ${missingAfter} still missing.`);
-              } else {
-                console.log(`🔍 Sweep ${sweepAttempts}: No new chunks found, ${missingAfter} still missing.`);
-              }
-              
-              // Always do all sweeps, even if we're not finding chunks (GunDB can be slow)
-              if (missingAfter > 0 && sweepAttempts < maxSweeps) {
-                console.log(`🔄 Continuing sweep ${sweepAttempts + 1}/${maxSweeps}...`);
-                performSweep();
-              } else {
-                // Final reassembly attempt
-                let base64String = '';
-                let allChunksPresent = true;
-                const missingChunks: number[] = [];
-
-                for (let i = 0; i < metadata.totalChunks; i++) {
-                  if (receivedChunks[i]) {
-                    base64String += receivedChunks[i];
-                  } else {
-                    missingChunks.push(i);
-                    allChunksPresent = false;
-                  }
-                }
-                
-                if (allChunksPresent) {
-                  console.log(`🎉 All chunks available after ${sweepAttempts} sweep(s), reassembling ${metadata.name}...`);
-                  this.reassembleFile(base64String, metadata, fileId);
-                } else {
-                  console.log(`❌ Cannot reassemble ${metadata.name} - still missing ${missingChunks.length} chunks after ${sweepAttempts} sweeps.`);
-                  console.log(`Missing chunk indices: ${missingChunks.slice(0, 10).join(', ')}${missingChunks.length > 10 ? '...' : ''}`);
-                  isProcessing = false;
-                }
-              }
-            }, 2000); // 2 second delay between sweeps to give GunDB time
-          };
-          
-          performSweep();
+  private async streamDirect(control: OutgoingTransfer, address: string, channel: RTCDataChannel, from: number): Promise<void> {
+    const { fileId, info } = control;
+    const cached = this.chunkCache.get(fileId);
+    if (!cached || !(await channelOpened(channel))) return;
+
+    channel.bufferedAmountLowThreshold = DIRECT_BUFFER / 4;
+    control.peers.add(address);
+    info.peer = address;
+    this.setStatus(info, 'sending');
+    console.log(`📡 Sending ${fileId} directly to ${address.slice(0, 12)}...`);
+
+    const chunkBytes = cached.metadata.chunkBytes;
+    let reader: ChunkReader | null = null;
+    try {
+      reader = await cached.openReader();
+      for (let index = from; index < reader.totalChunks; index++) {
+        await holdWhilePaused(control);
+        if (control.controller.signal.aborted || channel.readyState !== 'open') return;
+
+        const data = encodeChunk(await reader.read(index), cached.fileKey, index, cached.metadata);
+        channel.send(JSON.stringify({ index, data }));
+        if (channel.bufferedAmount > DIRECT_BUFFER) {
+          await channelDrained(channel);
         }
-      });
-      
-      // Set timeout to force completion if chunks are missing
-      // With 5ms per chunk upload, expect completion within chunks * 5ms + network latency
-      // Give it 3x the expected time to account for network delays
-      const expectedDuration = metadata.totalChunks * 5; // 5ms per chunk
-      const timeoutDuration = Math.max(15000, expectedDuration * 3); // At least 15s, or 3x expected duration
-      timeoutId = setTimeout(() => {
-        if (!isProcessing && collectedChunks > 0) {
-          console.log(`⏰ Timeout reached for ${metadata.name}. Attempting reassembly with ${collectedChunks}/${metadata.totalChunks} chunks...`);
-          isProcessing = true;
-          
-          // CRITICAL: Detach this chunk listener on timeout as well
-          if (chunkListener && typeof chunkListener.off === 'function') {
-            chunkListener.off();
-          }
+        this.reportProgress(control, index + 1, Math.min(info.size, (index + 1) * chunkBytes));
+      }
+      console.log(`📡 Sent ${fileId} directly to ${address.slice(0, 12)}..., waiting for confirmation`);
+    } catch (error) {
+      console.log(`❌ Direct transfer of ${fileId} to ${address.slice(0, 12)}... failed: ${(error as Error).message}`);
+    } finally {
+      await reader?.close();
+    }
 
-          // On timeout, perform comprehensive sweeps to recover missing chunks
-          console.log(`🔍 Timeout: Performing final sweeps for ${metadata.totalChunks - collectedChunks} missing chunks...`);
-          
-          let sweepAttempts = 0;
-          const maxSweeps = 5; // More sweeps = better chance to find missing chunks
-          
-          const performTimeoutSweep = () => {
-            sweepAttempts++;
-            const missingBefore = metadata.totalChunks - collectedChunks;
-            
-            this.yumi.gun.get('chunks').get(fileId).map().once((chunk: any, chunkId: any) => {
-              if (chunk && typeof chunk.index !== 'undefined' && chunk.data && !receivedChunks[chunk.index]) {
-                receivedChunks[chunk.index] = chunk.data;
-                collectedChunks++;
-              }
-            });
-            
-            setTimeout(async () => {
-              const missingAfter = metadata.totalChunks - collectedChunks;
-              const foundInSweep = missingBefore - missingAfter;
-              
-              if (foundInSweep > 0) {
-                console.log(`🔄 Timeout sweep ${sweepAttempts}: Found ${foundInSweep} more chunks, ${missingAfter} still missing.`);
-              } else {
-                console.log(`🔍 Timeout sweep ${sweepAttempts}: No new chunks found, ${missingAfter} still missing.`);
-              }
-              
-              // Always do all sweeps, even if we're not finding chunks (GunDB can be slow)
-              if (missingAfter > 0 && sweepAttempts < maxSweeps) {
-                console.log(`🔄 Continuing timeout sweep ${sweepAttempts + 1}/${maxSweeps}...`);
-                performTimeoutSweep();
-              } else {
-                // After all sweeps, check if we still have missing chunks
-                let base64String = '';
-                let missingChunks: number[] = [];
-                let allChunksPresent = true;
-
-                for (let i = 0; i < metadata.totalChunks; i++) {
-                  if (receivedChunks[i]) {
-                    base64String += receivedChunks[i];
-                  } else {
-                    missingChunks.push(i);
-                    allChunksPresent = false;
-                  }
-                }
-                
-                if (allChunksPresent) {
-                  console.log(`✅ All chunks recovered after ${sweepAttempts} timeout sweep(s), reassembling ${metadata.name}...`);
-                  this.reassembleFile(base64String, metadata, fileId);
-                  
-                  // Notify sender of successful transfer
-                  if (metadata.sender) {
-                    this.yumi.rpc(metadata.sender, 'transfer-confirmed', { fileId }, () => {});
-                  }
-                } else {
-                  // Try to request missing chunks from sender via RPC
-                  console.log(`🔄 Requesting ${missingChunks.length} missing chunks from sender...`);
-                  
-                  if (metadata.sender && this.yumi.peers[metadata.sender]) {
-                    try {
-                      await this.requestMissingChunks(metadata.sender, fileId, missingChunks, receivedChunks, metadata);
-                    } catch (error) {
-                      console.log(`❌ Failed to request chunks: ${(error as Error).message}`);
-                      console.log(`❌ Cannot complete transfer after timeout`);
-                      isProcessing = false;
-                    }
-                  } else {
-                    console.log(`❌ Sender not available for chunk retransmission`);
-                    console.log(`❌ Missing ${missingChunks.length} chunks for ${metadata.name}: ${missingChunks.slice(0, 10).join(', ')}${missingChunks.length > 10 ? '...' : ''}`);
-                    console.log(`❌ Cannot complete transfer after timeout`);
-                    isProcessing = false;
-                  }
-                }
-              }
-            }, 2000); // 2 second delay between sweeps to give GunDB time
-          };
-          
-          performTimeoutSweep();
-        }
-      }, timeoutDuration);
-    });
+    // Unless a GunDB upload is running, wait for `transfer-confirmed`
+    if (info.status === 'sending' && (control.uploaded || control.written === 0)) {
+      this.setStatus(info, 'waiting');
+    }
   }
 
-
   /**
-   * Request missing chunks from sender
+   * Re-read and encode chunks of a file we send, skipping those not available
+   * (not read yet, or no longer cached for streams)
    */
-  private async requestMissingChunks(
-    senderAddress: string,
-    fileId: string,
-    missingChunks: number[],
-    receivedChunks: { [key: number]: string },
-    metadata: any
-  ): Promise<void> {
-    return new Promise((resolve, reject) => {
-      console.log(`📨 Requesting ${missingChunks.length} chunks from ${senderAddress.slice(0, 12)}...`);
-      
-      this.yumi.rpc(senderAddress, 'request-chunks', 
-        { fileId, missingChunks },
-        (response: any) => {
-          if (!response.success) {
-            reject(new Error(response.error || 'Failed to get chunks'));
-            return;
-          }
-          
-          console.log(`📥 Received ${response.chunks.length} missing chunks`);
-          
-          // Add missing chunks to received chunks
-          for (const chunk of response.chunks) {
-            receivedChunks[chunk.index] = chunk.data;
-          }
-          
-          // Check if we now have all chunks
-          let allChunksPresent = true;
-          let base64String = '';
-          const stillMissing: number[] = [];
-          
-          for (let i = 0; i < metadata.totalChunks; i++) {
-            if (receivedChunks[i]) {
-              base64String += receivedChunks[i];
-            } else {
-              stillMissing.push(i);
-              allChunksPresent = false;
-            }
-          }
-          
-          if (allChunksPresent) {
-            console.log(`✅ All chunks received after retransmission! Reassembling ${metadata.name}...`);
-            this.reassembleFile(base64String, metadata, fileId);
-            
-            // Notify sender of successful transfer
-            this.yumi.rpc(senderAddress, 'transfer-confirmed', { fileId }, () => {});
-            
-            resolve();
-          } else {
-            reject(new Error(`Still missing ${stillMissing.length} chunks: ${stillMissing.slice(0, 10).join(', ')}`));
-          }
+  private async readChunks(
+    cached: { openReader: () => Promise<ChunkReader>, fileKey: Uint8Array | null, metadata: any, hashes?: string[] },
+    indices: number[]
+  ): Promise<{ index: number, data: string }[]> {
+    const chunks: { index: number, data: string }[] = [];
+    const reader = await cached.openReader();
+    try {
+      for (const index of indices) {
+        try {
+          const data = encodeChunk(await reader.read(index), cached.fileKey, index, cached.metadata);
+          // A seed's chunks are re-encoded from what we wrote, skip any that come out different
+          if (cached.hashes && hashChunk(data) !== cached.hashes[index]) continue;
+          chunks.push({ index, data });
+        } catch (e) {
+          // Not available
         }
-      );
-    });
+      }
+    } finally {
+      await reader.close();
+    }
+    return chunks;
   }
 
   /**
-   * Reassemble file from Base64 string
+   * Upload the chunks of a file we send, reporting it as failed if the source breaks
    */
-  private reassembleFile(base64String: string, metadata: any, fileId: string): void {
+  private async uploadChunks(control: OutgoingTransfer, chunks: AsyncIterable<string>, totalChunks?: number): Promise<void> {
     try {
-      // Convert back to ArrayBuffer (Node.js compatible)
-      let bytes: Uint8Array;
-      if (typeof process !== 'undefined' && process.versions && process.versions.node) {
-        // Node.js: use Buffer
-        bytes = new Uint8Array(Buffer.from(base64String, 'base64'));
-      } else {
-        // Browser: use atob
-        const binaryString = atob(base64String);
-        bytes = new Uint8Array(binaryString.length);
-        for (let i = 0; i < binaryString.length; i++) {
-          bytes[i] = binaryString.charCodeAt(i);
-        }
-      }
-      
-      // Emit file received event
-      this.emit('file-received', {
-        filename: metadata.name,
-        size: metadata.size,
-        data: bytes.buffer,
-        fileId: fileId
-      });
-      
-      console.log(`🎉 File received: ${metadata.name} (${this.formatSize(metadata.size)})`);
+      await this.putChunks(control, chunks, totalChunks);
     } catch (error) {
-      console.error(`❌ Error decoding file ${metadata.name}:`, error);
+      // Cancelled transfers are reported by cancelTransfer()
+      if ((error as Error).name !== 'AbortError') {
+        const reason = (error as Error).message;
+        console.log(`❌ Sending ${control.fileId} failed: ${reason}`);
+        this.forgetOutgoing(control.fileId);
+        this.tombstone(control.fileId);
+        this.setStatus(control.info, 'failed', reason);
+        this.emit('failed', { ...control.info });
+      }
+      throw error;
     }
+
+    // Uploaded, `delivered` follows when receivers confirm
+    control.uploaded = true;
+    this.setStatus(control.info, 'waiting');
   }
 
   /**
-   * Send file via GunDB (decentralized approach)
+   * Put chunks to GunDB, paced by the transfer's congestion window, holding while paused
    */
-  async sendFile(file: File | { name: string; size: number }, data?: ArrayBuffer | Uint8Array): Promise<string> {
-    if (!data) {
-      throw new Error('File data is required for GunDB transfer');
+  private async putChunks(control: OutgoingTransfer, chunks: AsyncIterable<string>, totalChunks?: number): Promise<void> {
+    const { fileId, info, flow } = control;
+    const fileChunksNode = this.yumi.channel.get('chunks').get(fileId);
+    const chunkBytes = this.chunkBytes();
+    let index = 0;
+
+    for await (const chunk of chunks) {
+      // Hold while paused, stop when cancelled
+      await holdWhilePaused(control);
+      // Wait for a free slot in the window (unacknowledged writes time out, so this ends)
+      while (!flow.unacknowledged && flow.inFlight >= Math.floor(flow.window) && !control.controller.signal.aborted) {
+        await new Promise<void>(resolve => { flow.wake = resolve; });
+      }
+      if (control.controller.signal.aborted) {
+        throw abortError();
+      }
+
+      const chunkData = {
+        index,
+        data: chunk,
+        timestamp: Date.now(),
+        fileId: fileId // Include fileId for reference
+      };
+
+      // Use .set() so .map() can find it, GunDB's write ack drives the window
+      this.trackWrite(control, (ack: (reply: any) => void) => fileChunksNode.set(chunkData, ack));
+      index++;
+      control.written = index;
+      this.reportProgress(control, index, info.size > 0 ? Math.min(info.size, index * chunkBytes) : index * chunkBytes);
+
+      // Show progress every 10% or every 100 chunks
+      if (typeof totalChunks === 'number') {
+        if (index % Math.max(1, Math.floor(totalChunks / 10)) === 0 ||
+            index % 100 === 0 ||
+            index === totalChunks) {
+          const progress = Math.round((index / totalChunks) * 100);
+          console.log(`📤 Upload progress: ${progress}% (${index}/${totalChunks} chunks)`);
+        }
+      } else if (index % 100 === 0) {
+        console.log(`📤 Upload progress: ${index} chunks`);
+      }
+
+      // Always yield to the event loop between writes, GunDB overflows its stack otherwise
+      await new Promise(resolve => setTimeout(resolve, flow.delay));
+    }
+
+    if (flow.acks > 0) {
+      console.log(`📶 Upload of ${fileId} ended with ${Math.floor(flow.window)} chunks in flight, ${Math.round(flow.rtt)}ms write round trip`);
     }
+  }
 
-    const fileId = this.generateTransferCode();
-    const base64Data = this.arrayBufferToBase64(data);
-    const totalChunks = Math.ceil(base64Data.length / this.chunkSize);
+  /**
+   * Count a chunk write against the congestion window until GunDB acknowledges it
+   * or it times out. If the first write is never acknowledged (no relay, no storage),
+   * the upload falls back to a fixed pace.
+   */
+  private trackWrite(control: OutgoingTransfer, write: (ack: (reply: any) => void) => void): void {
+    const { flow } = control;
+    const startedAt = Date.now();
+    let settled = false;
 
-    console.log(`📤 Sending file via GunDB: ${file.name} (${totalChunks} chunks)`);
+    const settle = (ok: boolean, timedOut: boolean = false) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      flow.inFlight--;
 
-    // 1. Save metadata first
-    const metadata = {
-      name: file.name,
-      type: (file as any).type || 'application/octet-stream',
-      size: file.size,
-      totalChunks: totalChunks,
-      timestamp: Date.now(),
-      sender: this.address()
+      if (ok) {
+        flow.unacknowledged = false;
+        flowAcked(flow, Date.now() - startedAt);
+      } else if (flow.acks > 0 || !timedOut) {
+        flowLost(flow);
+      } else if (!flow.unacknowledged) {
+        flow.unacknowledged = true;
+        flow.delay = FLOW_BASE_DELAY;
+        console.log(`📶 GunDB does not acknowledge writes, sending ${control.fileId} at a fixed pace`);
+      }
+
+      const wake = flow.wake;
+      flow.wake = null;
+      wake?.();
     };
-    
-    this.yumi.gun.get('files').get(fileId).put(metadata);
 
-    // 2. Cache chunks for retransmission
-    const chunksMap = new Map<number, string>();
+    const timer = setTimeout(() => settle(false, true), Math.max(FLOW_ACK_TIMEOUT, flow.rtt * 4));
+    flow.inFlight++;
+    write((reply: any) => settle(!reply?.err));
+  }
 
-    // 3. Save all the chunks (batch processing to avoid stack overflow)
-    const fileChunksNode = this.yumi.gun.get('chunks').get(fileId);
-    const batchSize = 1; // MUST be 1 to prevent GunDB stack overflow
-    const batchDelay = 5; // 5ms delay between chunks (fast enough, prevents stack overflow)
-    
-    for (let batchStart = 0; batchStart < totalChunks; batchStart += batchSize) {
-      const batchEnd = Math.min(batchStart + batchSize, totalChunks);
-      
-      // Process chunks in this batch
-      for (let i = batchStart; i < batchEnd; i++) {
-        const chunk = base64Data.slice(i * this.chunkSize, (i + 1) * this.chunkSize);
-        
-        // Store in cache for retransmission
-        chunksMap.set(i, chunk);
-        
-        const chunkData = {
-          index: i,
-          data: chunk,
-          timestamp: Date.now(),
-          fileId: fileId // Include fileId for reference
-        };
-        
-        // Use .set() so .map() can find it, but we control flow with batching
-        fileChunksNode.set(chunkData);
-      }
-      
-      // Show progress every 10% or every 100 chunks
-      if (batchEnd % Math.max(1, Math.floor(totalChunks / 10)) === 0 || 
-          batchEnd % 100 === 0 || 
-          batchEnd === totalChunks) {
-        const progress = Math.round((batchEnd / totalChunks) * 100);
-        console.log(`📤 Upload progress: ${progress}% (${batchEnd}/${totalChunks} chunks)`);
+  /**
+   * Whether to deflate the chunks of a file we send
+   */
+  private shouldCompress(file: { name: string; type?: string }, options?: SendOptions): boolean {
+    const wanted = options?.compress ?? this.compression;
+    if (wanted && isCompressedFormat(file)) {
+      console.log(`🗜️ Not compressing ${file.name}, its format is compressed already`);
+      return false;
+    }
+    return wanted;
+  }
+
+  /**
+   * Raw bytes per chunk, advertised as `chunkBytes` in the metadata
+   */
+  private chunkBytes(): number {
+    return Math.max(1, Math.floor(this.chunkSize));
+  }
+
+  /**
+   * In encrypted mode, chunks and file info are sealed with a per-transfer key
+   * that recipients fetch over Yari (see 'request-file-key').
+   * Targeted and code-protected transfers are always sealed: the key is boxed for each
+   * recipient, or handed over through the code exchange (see 'pake').
+   */
+  private createFileKey(fileId: string, recipients?: string[], code?: string | null): Uint8Array | null {
+    if (!this.yari && !recipients && !code) return null;
+
+    if (recipients) {
+      for (const address of recipients) {
+        if (!this.yumi.peers[address]) {
+          throw new Error(address + " not seen - no encryption key.");
+        }
       }
-      
-      // Critical delay to prevent GunDB stack overflow - allows event loop to clear
-      await new Promise(resolve => setTimeout(resolve, batchDelay));
     }
 
-    // 4. Store in cache for retransmission requests
-    this.chunkCache.set(fileId, {
-      chunks: chunksMap,
-      metadata,
-      timestamp: Date.now()
-    });
+    const key = nacl.randomBytes(nacl.secretbox.keyLength);
+    this.fileKeys.set(fileId, { key, sender: this.address(), timestamp: Date.now(), recipients, code: code || undefined, attempts: 0 });
+    console.log('🔐 Encrypting file with a per-transfer key');
+    return key;
+  }
 
-    console.log(`✅ File uploaded to GunDB: ${fileId}`);
-    console.log(`💾 Cached ${chunksMap.size} chunks for retransmission (retention: ${this.CACHE_RETENTION / 60000} min)`);
-    this.emit('transfer-complete', fileId);
-    
-    return fileId;
+  /**
+   * Metadata fields restricting who can open the transfer key: boxed keys for targeted transfers,
+   * or the flag marking a code-protected transfer
+   */
+  private accessFields(fileId: string): any {
+    const entry = this.fileKeys.get(fileId);
+    if (entry && entry.code) return { pake: true };
+    if (!entry || !entry.recipients) return {};
+
+    const keys: { [address: string]: string } = {};
+    for (const address of entry.recipients) {
+      keys[address] = boxKey(entry.key, this.yumi.peers[address].ek, this.yumi.keyPairEncrypt.secretKey);
+    }
+    console.log(`🎯 Addressing file to ${entry.recipients.length} recipient(s)`);
+    return { recipients: JSON.stringify(keys), ek: this.yumi.ek };
   }
 
   /**
-   * Generate transfer code
+   * Public file info fields of the metadata (sealed in encrypted mode)
    */
-  private generateTransferCode(): string {
-    const words = [
-      'alpha', 'bravo', 'charlie', 'delta', 'echo', 'foxtrot',
-      'golf', 'hotel', 'india', 'juliet', 'kilo', 'lima',
-      'ninja', 'samurai', 'shogun', 'katana', 'sakura', 'tokyo'
-    ];
-    
-    const word1 = words[Math.floor(Math.random() * words.length)];
-    const word2 = words[Math.floor(Math.random() * words.length)];
-    const num = Math.floor(Math.random() * 100);
-    
-    return `${num}-${word1}-${word2}`;
+  private describeFile(file: { name: string; size: number; type?: string; files?: BundleEntry[] }, fileKey: Uint8Array | null): any {
+    const info = {
+      name: file.name,
+      type: file.type || 'application/octet-stream',
+      size: file.size,
+      // GunDB has no arrays, the manifest of a directory is kept as JSON
+      ...(file.files ? { files: JSON.stringify(file.files) } : {})
+    };
+    return fileKey ? { encrypted: true, info: sealData(toBuffer(JSON.stringify(info)), fileKey) } : info;
   }
 
   /**
-   * Utility: ArrayBuffer to Base64 (Node.js compatible)
+   * Add our signing key and signature to the metadata (GunDB rejects undefined fields)
    */
-  private arrayBufferToBase64(buffer: Uint8Array | ArrayBuffer): string {
-    const bytes = buffer instanceof ArrayBuffer ? new Uint8Array(buffer) : buffer;
-    
-    // Check if we're in Node.js environment
-    if (typeof process !== 'undefined' && process.versions && process.versions.node) {
-      // Node.js: use Buffer
-      return Buffer.from(bytes).toString('base64');
-    } else {
-      // Browser: use btoa
-      let binary = '';
-      for (let i = 0; i < bytes.length; i++) {
-        binary += String.fromCharCode(bytes[i]);
-      }
-      return btoa(binary);
+  private signMetadata(fileId: string, metadata: any): any {
+    for (const key of Object.keys(metadata)) {
+      if (metadata[key] === undefined) delete metadata[key];
+    }
+    metadata.pk = this.yumi.pk;
+    metadata.signature = toHex(nacl.sign.detached(integrityPayload(fileId, metadata), this.yumi.keyPair.secretKey));
+    return metadata;
+  }
+
+  /**
+   * Generate transfer code: `<id>-<word>-<word>...`. Only the id is published (it is the GunDB key),
+   * the words are the secret for the code exchange. Open and targeted transfers only get an id.
+   */
+  private generateTransferCode(options?: SendOptions): { fileId: string, code: string, secret: string | null } {
+    let fileId: string;
+    do {
+      fileId = String(randomInt(NAMEPLATE_RANGE));
+    } while (this.chunkCache.has(fileId) || this.transferStates.has(fileId));
+
+    if (options?.open || options?.recipients) {
+      return { fileId, code: fileId, secret: null };
+    }
+
+    const words: string[] = [];
+    for (let i = 0; i < this.codeWords; i++) {
+      words.push(this.wordList[randomInt(this.wordList.length)].toLowerCase());
     }
+    const secret = words.join('-');
+
+    return { fileId, code: `${fileId}-${secret}`, secret };
   }
 
   /**
@@ -614,14 +4171,18 @@ export class Kunai extends EventEmitter {
     let foundFiles = 0;
     const fileList: any[] = [];
     
+    const roots = this.legacyTransfers ? [this.yumi.channel, this.yumi.gun] : [this.yumi.channel];
+    
     // Use .once() to prevent persistent listeners
-    this.yumi.gun.get('files').map().once((metadata: any, fileId: any) => {
-      if (metadata && metadata.sender !== this.address()) {
-        foundFiles++;
-        fileList.push({ metadata, fileId });
-        console.log(`📁 Found existing file: ${metadata.name} (${metadata.totalChunks} chunks) - ID: ${fileId}`);
-      }
-    });
+    for (const root of roots) {
+      root.get('files').map().once((metadata: any, fileId: any) => {
+        if (metadata && metadata.sender !== this.address()) {
+          foundFiles++;
+          fileList.push({ metadata, fileId });
+          console.log(`📁 Found existing file: ${metadata.name} (${metadata.totalChunks} chunks) - ID: ${fileId}`);
+        }
+      });
+    }
     
     // After a short delay, show summary
     setTimeout(() => {
@@ -709,8 +4270,35 @@ export class Kunai extends EventEmitter {
    * Destroy and cleanup
    */
   destroy(cb?: () => void): void {
-    // Clear chunk cache
+    if (this.cleanupInterval) {
+      clearInterval(this.cleanupInterval);
+      this.cleanupInterval = null;
+    }
+
+    // Stop uploads, clear chunk cache, offers and pending incoming transfers
+    for (const control of this.outgoing.values()) {
+      control.controller.abort();
+      control.resume?.();
+    }
+    this.outgoing.clear();
     this.chunkCache.clear();
+    this.pendingOffers.clear();
+    for (const fileId of [...this.seeds.keys()]) {
+      this.stopSeeding(fileId);
+    }
+    this.lockedFiles.clear();
+    this.claimedFiles.clear();
+    for (const transfer of Array.from(this.incoming.values())) {
+      this.closeTransfer(transfer);
+
+      // Keep partial files that can be resumed on the next start
+      if (this.stateDir && transfer.sink.path) {
+        transfer.writing.then(() => transfer.sink.close()).catch(() => {});
+      } else {
+        transfer.completed = true;
+        transfer.sink.abort();
+      }
+    }
     
     // Destroy Yumi (or Yari, which will destroy Yumi)
     if (this.yari) {
@@ -60,11 +60,49 @@ export interface SEAKeyPair {
   epriv: string;
 }
 
+export interface YariOptions extends YumiOptions {
+  pinKeys?: boolean; // Reject new SEA keys for a peer we already have keys for, instead of accepting them
+  strict?: boolean;  // Never send in cleartext: fail with a YariError when nobody can decrypt (default: true)
+  groupKey?: boolean;  // Encrypt broadcasts once with a shared channel key, rotated when members join or leave
+  ratchet?: boolean;   // Encrypt messages to peers with double-ratchet sessions, for forward secrecy (default: true)
+  sea?: SEAKeyPair;    // SEA keys from an earlier run (`yari.sea`), kept with the seed so peers don't see a key change
+}
+
 export interface YariPeerInfo {
   pub: string;
   epub: string;
 }
 
+// SEA public keys signed by the Yumi key behind the sender's address
+export interface YariKeyBundle extends YariPeerInfo {
+  pk: string;  // Yumi signing key (base58)
+  t: number;   // Signing time, newer bundles replace older ones
+  ratchet?: boolean; // The peer takes double-ratchet messages (signed too, absent in older versions)
+  sig: string; // Ed25519 signature of keyBindingPayload() (hex)
+}
+
+// Long-lived X25519 key a peer receives offline messages with, signed by its Yumi key
+export interface YariPrekey {
+  key: string; // X25519 public key (base64)
+  pk: string;  // Yumi signing key (base58)
+  t: number;
+  sig: string; // Ed25519 signature of prekeyPayload() (hex)
+}
+
+// Offline message waiting in a peer's mailbox, encrypted to its prekey
+export interface YariEnvelope {
+  from: string;   // Sender address
+  pk: string;     // Sender's Yumi signing key (base58)
+  pub: string;    // Sender's SEA public keys, reported with the decrypted message
+  epub: string;
+  prekey: string; // Recipient prekey it is encrypted to
+  ek: string;     // One-time X25519 public key of the sender (base64)
+  nonce: string;  // base64
+  data: string;   // nacl.box ciphertext (base64)
+  t: number;
+  sig: string;    // Ed25519 signature of envelopePayload() (hex)
+}
+
 // Legacy aliases for backward compatibility
 export type BugoutOptions = YumiOptions;
 export type BugoffPeerInfo = YariPeerInfo;
@@ -66,6 +66,86 @@ export function fromBase64(base64: string): Uint8Array | Buffer {
   return Uint8Array.from(binary, (c: string) => c.charCodeAt(0));
 }
 
+// Z85 alphabet: no quotes or backslashes, so encoded data needs no escaping in JSON
+const Z85_CHARS = '0123456789abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ.-:+=^!/*?&<>()[]{}@%$#';
+// Z85 with `:[]{}` swapped for `;|_~'`: SEA runs the strings Gun reads back from storage through
+// its YSON parser, which throws on text holding JSON structure characters in the wrong order
+const GUN85_CHARS = '0123456789abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ.-;+=^!/*?&<>()|_~\'@%$#';
+const Z85_VALUES = base85Values(Z85_CHARS);
+const GUN85_VALUES = base85Values(GUN85_CHARS);
+
+function base85Values(chars: string): Int8Array {
+  const values = new Int8Array(128).fill(-1);
+  for (let i = 0; i < chars.length; i++) values[chars.charCodeAt(i)] = i;
+  return values;
+}
+
+/**
+ * Base85 (Z85 alphabet): 5 characters per 4 bytes, a final group of n bytes takes n + 1 characters
+ */
+export function toZ85(data: Uint8Array | Buffer): string {
+  return toBase85(data, Z85_CHARS);
+}
+
+export function fromZ85(text: string): Uint8Array {
+  return fromBase85(text, Z85_VALUES);
+}
+
+/**
+ * Base85 that Gun stores and reads back safely: Z85 without JSON structure characters
+ */
+export function toGun85(data: Uint8Array | Buffer): string {
+  return toBase85(data, GUN85_CHARS);
+}
+
+export function fromGun85(text: string): Uint8Array {
+  return fromBase85(text, GUN85_VALUES);
+}
+
+function toBase85(data: Uint8Array | Buffer, chars: string): string {
+  let result = '';
+  for (let i = 0; i < data.length; i += 4) {
+    const length = Math.min(4, data.length - i);
+    let value = 0;
+    for (let j = 0; j < 4; j++) {
+      value = value * 256 + (j < length ? data[i + j] : 0);
+    }
+
+    const digits = new Array(5);
+    for (let j = 4; j >= 0; j--) {
+      digits[j] = chars[value % 85];
+      value = Math.floor(value / 85);
+    }
+    result += digits.slice(0, length + 1).join('');
+  }
+  return result;
+}
+
+function fromBase85(text: string, values: Int8Array): Uint8Array {
+  if (text.length % 5 === 1) {
+    throw new Error('Invalid base85 length');
+  }
+
+  const bytes = new Uint8Array(Math.floor(text.length / 5) * 4 + Math.max(0, (text.length % 5) - 1));
+  for (let i = 0, offset = 0; i < text.length; i += 5, offset += 4) {
+    const length = Math.min(5, text.length - i);
+    let value = 0;
+    for (let j = 0; j < 5; j++) {
+      // A short final group is padded with the highest digit, which truncates to the encoded bytes
+      const digit = j < length ? values[text.charCodeAt(i + j)] ?? -1 : 84;
+      if (digit < 0) throw new Error('Invalid base85 character');
+      value = value * 85 + digit;
+    }
+    if (value > 0xffffffff) throw new Error('Invalid base85 group');
+
+    for (let j = 3; j >= 0; j--) {
+      if (j < length - 1) bytes[offset + j] = value % 256;
+      value = Math.floor(value / 256);
+    }
+  }
+  return bytes;
+}
+
 export function sha256(input: any): string {
   if (isNode) {
     const crypto = require('crypto');
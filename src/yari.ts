@@ -8,10 +8,135 @@
  */
 
 import { Yumi } from './yumi.js';
-import { YumiOptions, SEAKeyPair, YariPeerInfo, DecryptedMessage } from './types.js';
-import { sha256 } from './utils.js';
+import { YariOptions, SEAKeyPair, YariPeerInfo, YariKeyBundle, YariPrekey, YariEnvelope, DecryptedMessage } from './types.js';
+import { sha256, toBuffer, toString, toHex, fromHex, toBase64, fromBase64 } from './utils.js';
 import { EventEmitter } from 'events';
 import { SEA as SHOGUN_SEA } from 'shogun-core';
+import nacl from 'tweetnacl';
+import bs58 from 'bs58';
+
+const MAILBOX_RETENTION = 7 * 24 * 60 * 60 * 1000; // Offline messages are dropped after a week
+const PREKEY_TIMEOUT = 5000; // Wait for a peer's prekey bundle in GunDB
+const GROUP_ROTATE_DELAY = 1000; // Batch joins and leaves into one channel key rotation
+const GROUP_KEY_HISTORY = 5; // Previous channel keys kept for broadcasts still in flight
+const RATCHET_MAX_SKIP = 1000; // Messages of one chain we accept to skip ahead of
+const RATCHET_MAX_SKIPPED = 2000; // Keys of skipped (late or lost) messages kept per peer
+const RATCHET_INTERVAL = 50; // Reply to this many messages in a row with an empty one, so the sender's key is ratcheted
+
+// Shared channel key, generated by the member with the lowest address
+interface GroupKey {
+  id: string;
+  key: string;
+  t: number;
+  members: string[]; // Addresses holding the key, its author included
+}
+
+// Double-ratchet state of the conversation with one peer
+interface RatchetSession {
+  rk: Uint8Array;          // Root key
+  dhs: SEAKeyPair;         // Our ratchet pair
+  dhr: string | null;      // Peer's ratchet public key (epub)
+  cks: Uint8Array | null;  // Sending chain key
+  ckr: Uint8Array | null;  // Receiving chain key
+  ns: number;              // Messages sent on the sending chain
+  nr: number;              // Messages received on the receiving chain
+  pn: number;              // Messages sent on our previous sending chain
+  skipped: Map<string, Uint8Array>; // Keys of messages not received yet, by `<dh>:<n>`
+  received: number;        // Messages received since we last sent one
+}
+
+// Header sent in the clear with each ratchet message (and sealed inside it)
+interface RatchetHeader {
+  dh: string;
+  pn: number;
+  n: number;
+}
+
+/**
+ * Derive two 32-byte keys from a key and an input, with SHA-512
+ */
+function ratchetKdf(key: Uint8Array, input: string, label: string): [Uint8Array, Uint8Array] {
+  const data = toBuffer(label + ':' + input);
+  const bytes = new Uint8Array(key.length + data.length);
+  bytes.set(key);
+  bytes.set(data, key.length);
+  const digest = nacl.hash(bytes);
+  return [digest.slice(0, 32), digest.slice(32, 64)];
+}
+
+/**
+ * Derive the keys of the next message on a chain (`[next chain key, message key]`)
+ */
+function chainStep(ck: Uint8Array): [Uint8Array, Uint8Array] {
+  return ratchetKdf(ck, '', 'yari-chain');
+}
+
+/**
+ * Bytes a peer signs with its Yumi key to bind its SEA public keys (and whether it takes ratchet messages) to its address
+ */
+function keyBindingPayload(address: string, pub: string, epub: string, t: number, ratchet?: boolean): Uint8Array {
+  return toBuffer(JSON.stringify(['yari-keys', address, pub, epub, t, ...(ratchet ? ['ratchet'] : [])]));
+}
+
+/**
+ * Bytes a peer signs with its Yumi key to bind its prekey to its address
+ */
+function prekeyPayload(address: string, key: string, t: number): Uint8Array {
+  return toBuffer(JSON.stringify(['yari-prekey', address, key, t]));
+}
+
+/**
+ * Bytes covered by the sender's signature of an offline message
+ */
+function envelopePayload(id: string, to: string, envelope: YariEnvelope): Uint8Array {
+  const { from, pub, epub, prekey, ek, nonce, data, t } = envelope;
+  return toBuffer(JSON.stringify(['yari-mail', id, from, to, pub, epub, prekey, ek, nonce, data, t]));
+}
+
+/**
+ * Prekey pair, derived from the Yumi signing key so the same identity always has the same one:
+ * messages left while a peer was offline can be read after it restarts
+ */
+function derivePrekey(signingKey: Uint8Array): nacl.BoxKeyPair {
+  const label = toBuffer('yari-prekey');
+  const bytes = new Uint8Array(32 + label.length);
+  bytes.set(signingKey.slice(0, 32));
+  bytes.set(label, 32);
+  return nacl.box.keyPair.fromSecretKey(nacl.hash(bytes).slice(0, 32));
+}
+
+/**
+ * Check an Ed25519 signature made with the Yumi key behind `address`, returns the reason on failure
+ */
+function verifySigned(yumi: Yumi, address: string, pk: string, sig: string, payload: Uint8Array): string | null {
+  if (!pk || !sig) {
+    return 'Not signed';
+  }
+  if (yumi.address(pk) !== address) {
+    return 'Signing key does not match sender';
+  }
+  try {
+    const valid = nacl.sign.detached.verify(payload, new Uint8Array(fromHex(sig)), new Uint8Array(bs58.decode(pk)));
+    return valid ? null : 'Invalid signature';
+  } catch (e) {
+    return 'Malformed signature';
+  }
+}
+
+export type YariErrorCode = 'NO_PEERS' | 'PEER_NOT_FOUND';
+
+/**
+ * Error of messages Yari refuses to send, `code` tells why
+ */
+class YariError extends Error {
+  code: YariErrorCode;
+
+  constructor(code: YariErrorCode, message: string) {
+    super(message);
+    this.name = 'YariError';
+    this.code = code;
+  }
+}
 
 /**
  * Yari (槍) - Encrypted P2P messaging
@@ -20,17 +145,39 @@ class Yari {
   events: EventEmitter;
   ID: string;
   identifier: string;
-  opts: YumiOptions;
+  opts: YariOptions;
   yumi: Yumi;
   address: string;
   peers: Record<string, YariPeerInfo>;
   sea: SEAKeyPair | null;
+  private seaPair: Promise<SEAKeyPair> | null = null; // Our SEA keys, once generated or set
+  prekey: string; // Public key offline messages are encrypted to (base64)
+  strict: boolean;
   
   // Message deduplication
   private processedMessages: Set<string> = new Set();
+
+  // Signing time of the key bundle we hold for each peer
+  private keyTimes: Map<string, number> = new Map();
+
+  // Mailbox subscription, and offline messages we sent that were not acknowledged yet
+  private prekeyPair: nacl.BoxKeyPair;
+  private outbox: Map<string, any> = new Map();
+  private mailDelivered: Map<string, number> = new Map(); // Ids of offline messages read, until they expire
+
+  // Double-ratchet sessions by peer, and the queue their updates go through one at a time
+  private sessions: Map<string, RatchetSession> = new Map();
+  private ratchetPeers: Set<string> = new Set(); // Peers whose signed keys say they take ratchet messages
+  private sessionQueues: Map<string, Promise<any>> = new Map();
+
+  // Channel keys by id, and the one broadcasts are encrypted with (group key mode)
+  private groupKeys: Map<string, GroupKey> = new Map();
+  private groupKey: GroupKey | null = null;
+  private rotateTimer: NodeJS.Timeout | null = null;
   
   // Cleanup timer
   private cleanupInterval: NodeJS.Timeout | null = null;
+  private pingInterval: NodeJS.Timeout | null = null;
 
   // Bound methods from Yumi
   on: Yumi['on'];
@@ -38,7 +185,7 @@ class Yari {
   rpc: Yumi['rpc'];
   heartbeat: Yumi['heartbeat'];
 
-  constructor(identifier: string, opts?: YumiOptions) {
+  constructor(identifier: string, opts?: YariOptions) {
     this.events = new EventEmitter();
     this.ID = sha256(identifier);
     this.identifier = this.ID;
@@ -49,6 +196,9 @@ class Yari {
     this.address = this.yumi.address();
     this.peers = {};
     this.sea = null;
+    this.prekeyPair = derivePrekey(this.yumi.keyPair.secretKey);
+    this.prekey = toBase64(this.prekeyPair.publicKey);
+    this.strict = this.opts.strict !== false;
 
     // Bind Yumi methods
     this.on = this.yumi.on.bind(this.yumi);
@@ -95,67 +245,51 @@ class Yari {
     });
 
     // Register RPC for peer key exchange
-    this.register('peer', (address: string, sea: YariPeerInfo, cb: (result: any) => void) => {
-      if (sea && sea.pub && sea.epub) {
-        this.peers[address] = {
-          pub: sea.pub,
-          epub: sea.epub
-        };
-
-        this.events.emit('newPeer', this.peers);
-
-        if (cb) cb({ success: true });
-      } else {
-        if (cb) cb({ success: false, error: 'Invalid keys' });
+    this.register('peer', (address: string, bundle: YariKeyBundle, cb: (result: any) => void) => {
+      const error = this.acceptKeys(address, bundle);
+      if (error) {
+        console.warn('⚠️ Rejected keys from', address.slice(0, 12) + '...:', error);
       }
+      if (cb) cb(error ? { success: false, error } : { success: true });
     });
 
     // Automatically exchange keys when seeing a new peer
-    this.yumi.on('seen', async (address: string) => {
-      // Make sure we have our own keys
-      if (!this.sea) {
-        await this.SEA();
-      }
+    this.yumi.on('seen', (address: string) => {
+      this.sendKeys(address);
+    });
+    // Presence Gun already had is replayed while Yumi is constructed, before we listen
+    Object.keys(this.yumi.peers).forEach((address) => this.sendKeys(address));
 
-      // Send our public keys to the peer
-      this.rpc(address, 'peer', {
-        pub: this.sea!.pub,
-        epub: this.sea!.epub
-      }, (response: any) => {
-        if (response && response.success) {
-          console.log('🔑 Keys exchanged with:', address.slice(0, 12) + '...');
-        }
-      });
+    // Channel keys, sent by the member that generated them over the pairwise SEA channel
+    this.register('group-key', (address: string, args: any, cb: (result: any) => void) => {
+      this.acceptGroupKey(address, args).then(
+        (error) => cb(error ? { success: false, error } : { success: true }),
+        (e) => cb({ success: false, error: (e as Error).message })
+      );
     });
 
+    // Members joining or leaving get a new channel key
+    if (this.opts.groupKey) {
+      this.events.on('newPeer', () => this.scheduleRotation());
+      this.yumi.on('left', () => this.scheduleRotation());
+    }
+
     // Also try to exchange keys on 'connections' event
     this.yumi.on('connections', (count: number) => {
       if (count > 0) {
         // Try to exchange keys with all known peers
         const peerAddresses = Object.keys(this.yumi.peers);
         
-        peerAddresses.forEach(async (address) => {
+        peerAddresses.forEach((address) => {
           if (!this.peers[address]) {
-            // Make sure we have our own keys
-            if (!this.sea) {
-              await this.SEA();
-            }
-            
-            this.rpc(address, 'peer', {
-              pub: this.sea!.pub,
-              epub: this.sea!.epub
-            }, (response: any) => {
-              if (response && response.success) {
-                console.log('🔑 Keys exchanged with:', address.slice(0, 12) + '...');
-              }
-            });
+            this.sendKeys(address);
           }
         });
       }
     });
 
     // Initialize SEA keys
-    this.SEA().then(() => {
+    this.SEA(this.opts.sea).then(() => this.openMailbox()).then(() => {
       console.log('✅ Yari initialized (encrypted mode)');
       
       // Start cleanup timer (every 5 minutes)
@@ -164,7 +298,7 @@ class Yari {
       }, 5 * 60 * 1000);
 
       // Send periodic pings to help with peer discovery
-      setInterval(() => {
+      this.pingInterval = setInterval(() => {
         this.yumi.ping();
       }, 10000); // Ping every 10 seconds
     }).catch((e) => {
@@ -173,19 +307,345 @@ class Yari {
   }
 
   /**
-   * Initialize or set SEA key pair
+   * Set the SEA key pair, or get it (generated once: peers see new keys as a key change)
    */
-  async SEA(pair?: SEAKeyPair): Promise<SEAKeyPair> {
+  SEA(pair?: SEAKeyPair): Promise<SEAKeyPair> {
     if (pair) {
       this.sea = pair;
-      return this.sea!;
+      this.seaPair = Promise.resolve(pair);
+    }
+    if (!this.seaPair) {
+      this.seaPair = Promise.resolve(SHOGUN_SEA.pair()).then((generated: SEAKeyPair) => (this.sea = generated));
+    }
+    return this.seaPair;
+  }
+
+  /**
+   * Send our SEA public keys to a peer, signed with our Yumi key
+   */
+  private async sendKeys(address: string): Promise<void> {
+    // Make sure we have our own keys
+    if (!this.sea) {
+      await this.SEA();
+    }
+
+    this.rpc(address, 'peer', this.signKeys(this.sea!), (response: any) => {
+      if (response && response.success) {
+        console.log('🔑 Keys exchanged with:', address.slice(0, 12) + '...');
+      } else if (response && response.error) {
+        console.warn('⚠️ Keys refused by', address.slice(0, 12) + '...:', response.error);
+      }
+    });
+  }
+
+  /**
+   * Sign SEA public keys with our Yumi key
+   */
+  private signKeys(pair: SEAKeyPair): YariKeyBundle {
+    const t = Date.now();
+    const ratchet = this.opts.ratchet !== false;
+    return {
+      pub: pair.pub,
+      epub: pair.epub,
+      pk: this.yumi.pk,
+      t,
+      ...(ratchet ? { ratchet } : {}),
+      sig: toHex(nacl.sign.detached(keyBindingPayload(this.address, pair.pub, pair.epub, t, ratchet), this.yumi.keyPair.secretKey))
+    };
+  }
+
+  /**
+   * Check SEA public keys signed by the Yumi key behind `address`, returns the reason on failure
+   */
+  private verifyKeys(address: string, bundle: YariKeyBundle): string | null {
+    if (!bundle || !bundle.pub || !bundle.epub) {
+      return 'Invalid keys';
+    }
+    if (typeof bundle.t !== 'number') {
+      return 'Keys are not signed';
+    }
+    return verifySigned(this.yumi, address, bundle.pk, bundle.sig, keyBindingPayload(address, bundle.pub, bundle.epub, bundle.t, bundle.ratchet === true));
+  }
+
+  /**
+   * Check a peer's signed SEA keys and store them, returns the reason on rejection.
+   * Keys that replace different ones we had for the address raise `key-changed`
+   */
+  private acceptKeys(address: string, bundle: YariKeyBundle): string | null {
+    const error = this.verifyKeys(address, bundle);
+    if (error) return error;
+
+    const previous = this.peers[address];
+    const next: YariPeerInfo = { pub: bundle.pub, epub: bundle.epub };
+    if (previous && previous.pub === next.pub && previous.epub === next.epub) {
+      if (bundle.t >= (this.keyTimes.get(address) || 0)) {
+        this.keyTimes.set(address, bundle.t);
+        this.setRatchetPeer(address, bundle);
+      }
+      return null;
+    }
+
+    // A replayed older bundle must not bring back keys the peer replaced
+    if (previous && bundle.t <= (this.keyTimes.get(address) || 0)) {
+      return 'Outdated keys';
+    }
+
+    if (previous) {
+      const rejected = !!this.opts.pinKeys;
+      console.warn(`🚨 SEA keys of ${address.slice(0, 12)}... changed` + (rejected ? ' (rejected, keys are pinned)' : ''));
+      this.yumi.emit('key-changed', address, previous, next, rejected);
+      this.events.emit('key-changed', address, previous, next, rejected);
+      if (rejected) return 'Keys are pinned';
+    }
+
+    this.peers[address] = next;
+    this.keyTimes.set(address, bundle.t);
+    this.setRatchetPeer(address, bundle);
+    // A session is built on the keys it started from
+    this.sessions.delete(address);
+    this.events.emit('newPeer', this.peers);
+    return null;
+  }
+
+  /**
+   * Remember whether a peer's latest keys advertise ratchet support (older Yari versions don't)
+   */
+  private setRatchetPeer(address: string, bundle: YariKeyBundle): void {
+    if (bundle.ratchet === true) {
+      this.ratchetPeers.add(address);
+    } else {
+      this.ratchetPeers.delete(address);
+    }
+  }
+
+  /**
+   * Publish our signed prekey and deliver the offline messages waiting in our mailbox
+   */
+  private openMailbox(): void {
+    const t = Date.now();
+    const prekey: YariPrekey = {
+      key: this.prekey,
+      pk: this.yumi.pk,
+      t,
+      sig: toHex(nacl.sign.detached(prekeyPayload(this.address, this.prekey, t), this.yumi.keyPair.secretKey))
+    };
+    this.yumi.channel.get('prekeys').get(this.address).put(prekey);
+
+    const mailbox = this.yumi.channel.get('mailbox').get(this.address);
+    mailbox.map().on((envelope: any, id: string, msg: any, eve: any) => {
+      // Dropped once we are destroyed, like Yumi's listeners
+      if (this.yumi.destroyed) {
+        eve.off();
+        return;
+      }
+      this.openEnvelope(mailbox, envelope, id).catch((e) => {
+        console.error('❌ Cannot open offline message', id + ':', e);
+      });
+    });
+  }
+
+  /**
+   * Decrypt an offline message from our mailbox, then acknowledge it by removing it
+   */
+  private async openEnvelope(mailbox: any, envelope: YariEnvelope | null, id: string): Promise<void> {
+    // GunDB may deliver the envelope in parts, it is checked once its signature matches
+    if (!envelope || !envelope.data || this.mailDelivered.has(id)) return;
+    if (verifySigned(this.yumi, envelope.from, envelope.pk, envelope.sig, envelopePayload(id, this.address, envelope))) return;
+
+    // Replays of a message we read are ignored until it would have expired anyway
+    const expiresAt = envelope.t + MAILBOX_RETENTION;
+    this.mailDelivered.set(id, expiresAt);
+    if (Date.now() > expiresAt) {
+      mailbox.get(id).put(null);
+      return;
+    }
+    if (envelope.prekey !== this.prekey) {
+      console.warn('⚠️ Offline message', id, 'is encrypted to another prekey');
+      return;
+    }
+
+    let message: any;
+    try {
+      const opened = nacl.box.open(
+        new Uint8Array(fromBase64(envelope.data)),
+        new Uint8Array(fromBase64(envelope.nonce)),
+        new Uint8Array(fromBase64(envelope.ek)),
+        this.prekeyPair.secretKey
+      );
+      message = opened ? JSON.parse(toString(opened)) : undefined;
+    } catch (e) {
+      message = undefined;
+    }
+    if (message === undefined) {
+      console.error('❌ Cannot decrypt offline message from', envelope.from.slice(0, 12) + '...');
+      return;
+    }
+
+    console.log('📬 Offline message from:', envelope.from.slice(0, 12) + '...');
+    const pubkeys: YariPeerInfo = { pub: envelope.pub, epub: envelope.epub };
+    this.yumi.emit('decrypted', envelope.from, pubkeys, message, id);
+    this.events.emit('decrypted', envelope.from, pubkeys, message, id);
+    mailbox.get(id).put(null);
+  }
+
+  /**
+   * Get the signed prekey a peer published, null if there is none (or it is not valid)
+   */
+  private fetchPrekey(address: string): Promise<YariPrekey | null> {
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => resolve(null), PREKEY_TIMEOUT);
+      this.yumi.channel.get('prekeys').get(address).once((prekey: any) => {
+        clearTimeout(timer);
+        if (!prekey) {
+          resolve(null);
+          return;
+        }
+        const error = !prekey.key || typeof prekey.t !== 'number'
+          ? 'Invalid prekey'
+          : verifySigned(this.yumi, address, prekey.pk, prekey.sig, prekeyPayload(address, prekey.key, prekey.t));
+        if (error) {
+          console.warn('⚠️ Ignoring prekey of', address.slice(0, 12) + '...:', error);
+        }
+        resolve(error ? null : prekey);
+      });
+    });
+  }
+
+  /**
+   * Leave an encrypted message in the mailbox of a peer that may be offline, encrypted to its prekey.
+   * Resolves with the message id, `mail-delivered` is emitted when the peer acknowledges it
+   */
+  async post(address: string, message: any): Promise<string> {
+    const prekey = await this.fetchPrekey(address);
+    if (!prekey) {
+      throw new YariError('PEER_NOT_FOUND', 'No keys or prekey for peer: ' + address);
+    }
+    if (!this.sea) {
+      await this.SEA();
+    }
+
+    // A one-time key per message, so the sender's own keys cannot open it later
+    const ephemeral = nacl.box.keyPair();
+    const nonce = nacl.randomBytes(nacl.box.nonceLength);
+    const sealed = nacl.box(toBuffer(JSON.stringify(message)), nonce, new Uint8Array(fromBase64(prekey.key)), ephemeral.secretKey);
+    const id = `${Date.now()}-${this.address}-${Math.random().toString(36).substring(2, 9)}`;
+    const envelope: YariEnvelope = {
+      from: this.address,
+      pk: this.yumi.pk,
+      pub: this.sea!.pub,
+      epub: this.sea!.epub,
+      prekey: prekey.key,
+      ek: toBase64(ephemeral.publicKey),
+      nonce: toBase64(nonce),
+      data: toBase64(sealed),
+      t: Date.now(),
+      sig: ''
+    };
+    envelope.sig = toHex(nacl.sign.detached(envelopePayload(id, address, envelope), this.yumi.keyPair.secretKey));
+
+    const node = this.yumi.channel.get('mailbox').get(address).get(id);
+    node.put(envelope);
+    console.log('📮 Offline message left for:', address.slice(0, 12) + '...');
+
+    // The recipient removes the envelope once it has read it
+    const listener = node.on((value: any) => {
+      if (value && value.data) return;
+      listener.off();
+      this.outbox.delete(id);
+      this.yumi.emit('mail-delivered', address, id);
+      this.events.emit('mail-delivered', address, id);
+    });
+    this.outbox.set(id, listener);
+    return id;
+  }
+
+  /**
+   * Peers we have keys for that are online, the members of a channel key
+   */
+  private groupMembers(): string[] {
+    return Object.keys(this.peers).filter((address) => this.yumi.peers[address]);
+  }
+
+  /**
+   * Rotate the channel key shortly, so several joins or leaves cause one rotation
+   */
+  private scheduleRotation(): void {
+    if (this.rotateTimer) clearTimeout(this.rotateTimer);
+    this.rotateTimer = setTimeout(() => {
+      this.rotateTimer = null;
+      this.rotateGroupKey().catch((e) => console.error('❌ Channel key rotation failed:', e));
+    }, GROUP_ROTATE_DELAY);
+  }
+
+  /**
+   * Generate a new channel key and send it to every member, if we are the member with the lowest address
+   */
+  private async rotateGroupKey(): Promise<void> {
+    const members = this.groupMembers();
+    if (members.length === 0 || members.some((address) => address < this.address)) return;
+
+    const group: GroupKey = {
+      id: `${Date.now()}-${this.address}-${Math.random().toString(36).substring(2, 9)}`,
+      key: toBase64(nacl.randomBytes(32)),
+      t: Date.now(),
+      members: [this.address, ...members]
+    };
+    this.storeGroupKey(group);
+    console.log(`🔄 New channel key for ${members.length} member(s)`);
+
+    for (const member of members) {
+      try {
+        const data = await this.encryptFor(member, group);
+        this.rpc(member, 'group-key', { data }, (response: any) => {
+          if (response && response.error) {
+            console.warn('⚠️ Channel key refused by', member.slice(0, 12) + '...:', response.error);
+          }
+        });
+      } catch (e) {
+        console.error('❌ Cannot send channel key to', member.slice(0, 12) + '...:', e);
+      }
     }
-    this.sea = await SHOGUN_SEA.pair();
-    return this.sea!;
   }
 
   /**
-   * Send encrypted message
+   * Store a channel key sent by a member, returns the reason on rejection
+   */
+  private async acceptGroupKey(address: string, args: any): Promise<string | null> {
+    if (!this.opts.groupKey) return 'Group keys are off';
+    if (!this.peers[address]) return 'Unknown peer';
+
+    const group = await this.decryptFrom(address, args?.data) as GroupKey;
+    if (!group || !group.id || !group.key || typeof group.t !== 'number' || !Array.isArray(group.members)) {
+      return 'Invalid channel key';
+    }
+    // Only the member with the lowest address generates keys
+    if (!group.members.includes(this.address) || group.members.some((member) => member < address)) {
+      return 'Not a channel key for us';
+    }
+
+    this.storeGroupKey(group);
+    console.log('🔑 Channel key received from:', address.slice(0, 12) + '...');
+    return null;
+  }
+
+  /**
+   * Keep a channel key, making it the current one if it is the newest
+   */
+  private storeGroupKey(group: GroupKey): void {
+    this.groupKeys.set(group.id, group);
+    if (!this.groupKey || group.t > this.groupKey.t) {
+      this.groupKey = group;
+    }
+    while (this.groupKeys.size > GROUP_KEY_HISTORY) {
+      const oldest = [...this.groupKeys.values()].reduce((a, b) => (a.t < b.t ? a : b));
+      this.groupKeys.delete(oldest.id);
+    }
+  }
+
+  /**
+   * Send encrypted message. Rejects with a YariError when no peer keys are known
+   * (broadcast) or the peer is unknown and has no prekey (direct), unless `strict` is off for broadcasts.
+   * Direct messages to peers we have no keys for go to their mailbox
    */
   async send(address?: string | any, message?: any): Promise<void> {
     // Wait for at least one peer to be ready, but with a timeout
@@ -196,7 +656,7 @@ class Yari {
         }),
         new Promise<void>((resolve) => {
           setTimeout(() => {
-            console.log('⚠️ No peers found after 5s, sending anyway (message will be stored in GunDB)');
+            console.log('⚠️ No peers found after 5s');
             resolve();
           }, 5000);
         })
@@ -213,16 +673,29 @@ class Yari {
 
       const peerKeys = Object.keys(this.peers);
       if (peerKeys.length === 0) {
-        console.log('⚠️ No peers available for encryption, storing message in GunDB for later pickup');
+        if (this.strict) {
+          throw new YariError('NO_PEERS', 'No peers to encrypt for, message not sent');
+        }
+        console.log('⚠️ No peers available for encryption, storing message in GunDB UNENCRYPTED (strict mode is off)');
         // Store the message in GunDB without encryption as a fallback
         this.yumi.send(msg);
         return;
       }
 
+      // One ciphertext for everyone, when the current channel key was made for exactly the members online
+      const group = this.opts.groupKey ? this.groupKey : null;
+      const members = this.groupMembers();
+      const others = group ? group.members.filter((member) => member !== this.address) : [];
+      if (group && others.length === members.length && members.every((member) => others.includes(member))) {
+        const data = await SHOGUN_SEA.encrypt(msg, group.key) as string;
+        this.yumi.send({ yariGroup: group.id, data });
+        console.log(`✅ Message encrypted with the channel key for ${group.members.length - 1} member(s)`);
+        return;
+      }
+
       const promises = peerKeys.map(async (peer) => {
         try {
-          const secret = await SHOGUN_SEA.secret(this.peers[peer].epub, this.sea!) as string;
-          const enc = await SHOGUN_SEA.encrypt(msg, secret);
+          const enc = await this.seal(peer, msg);
           this.events.emit('encoded', [peer, enc, msgId]);
           console.log('✅ Message encrypted for peer:', peer.slice(0, 12) + '...');
         } catch (e) {
@@ -232,16 +705,16 @@ class Yari {
 
       await Promise.all(promises);
     } else {
-      // Direct message
+      // Direct message, left in the mailbox of peers we have not exchanged keys with
       if (!this.peers[address]) {
-        throw new Error('Peer not found: ' + address);
+        await this.post(address, message);
+        return;
       }
 
       console.log('📤 Sending direct encrypted message to:', address.slice(0, 12) + '...');
 
       try {
-        const secret = await SHOGUN_SEA.secret(this.peers[address].epub, this.sea!) as string;
-        const enc = await SHOGUN_SEA.encrypt(message, secret);
+        const enc = await this.seal(address, message);
         this.events.emit('encoded', [address, enc, msgId]);
         console.log('✅ Direct message encrypted and sent');
       } catch (e) {
@@ -268,8 +741,16 @@ class Yari {
     }
 
     try {
-      const secret = await SHOGUN_SEA.secret(this.peers[address].epub, this.sea) as string;
-      const decrypted = await SHOGUN_SEA.decrypt(message, secret) as string;
+      let decrypted: any;
+      if (message && typeof message.yariGroup === 'string') {
+        decrypted = await this.decryptGroup(address, message);
+      } else if (message && message.yariRatchet) {
+        const opened = await this.ratchetDecrypt(address, message);
+        if (opened.kind !== 'm') return null; // Only there to ratchet our sending key
+        decrypted = opened.message;
+      } else {
+        decrypted = await this.decryptFrom(address, message);
+      }
 
       console.log('🔓 Message decrypted successfully for peer:', address.slice(0, 12) + '...');
 
@@ -284,6 +765,227 @@ class Yari {
     }
   }
 
+  /**
+   * Encrypt data for a single peer using the shared SEA secret
+   */
+  async encryptFor(address: string, data: any): Promise<string> {
+    if (!this.peers[address]) {
+      throw new YariError('PEER_NOT_FOUND', 'Peer not found: ' + address);
+    }
+    if (!this.sea) {
+      await this.SEA();
+    }
+    const secret = await SHOGUN_SEA.secret(this.peers[address].epub, this.sea!) as string;
+    return await SHOGUN_SEA.encrypt(data, secret) as string;
+  }
+
+  /**
+   * Decrypt data from a single peer using the shared SEA secret
+   */
+  async decryptFrom(address: string, data: any): Promise<any> {
+    if (!this.peers[address]) {
+      throw new Error('Peer not found: ' + address);
+    }
+    if (!this.sea) {
+      throw new Error('No SEA keypair available for decryption');
+    }
+    const secret = await SHOGUN_SEA.secret(this.peers[address].epub, this.sea) as string;
+    return await SHOGUN_SEA.decrypt(data, secret);
+  }
+
+  /**
+   * Encrypt a message for one peer: with its ratchet session if both of us take them, or the static SEA secret
+   */
+  private async seal(address: string, message: any): Promise<any> {
+    const ratchet = this.opts.ratchet !== false && this.ratchetPeers.has(address);
+    return ratchet ? this.ratchetEncrypt(address, message) : this.encryptFor(address, message);
+  }
+
+  /**
+   * Run updates of a peer's ratchet session one at a time, SEA calls are asynchronous
+   */
+  private inSession<T>(address: string, fn: () => Promise<T>): Promise<T> {
+    const previous = this.sessionQueues.get(address) || Promise.resolve();
+    const next = previous.then(fn, fn);
+    this.sessionQueues.set(address, next.catch(() => {}));
+    return next;
+  }
+
+  /**
+   * Ratchet session with a peer, started from the static SEA secret.
+   * The peer with the lower address takes the first DH ratchet step; the other one
+   * sends on an initial chain until that step reaches it, so either can speak first
+   */
+  private async session(address: string): Promise<RatchetSession> {
+    const existing = this.sessions.get(address);
+    if (existing) return existing;
+
+    const peer = this.peers[address];
+    if (!peer) {
+      throw new YariError('PEER_NOT_FOUND', 'Peer not found: ' + address);
+    }
+    if (!this.sea) {
+      await this.SEA();
+    }
+
+    const secret = await SHOGUN_SEA.secret(peer.epub, this.sea!) as string;
+    const [root, initial] = ratchetKdf(new Uint8Array(0), secret, 'yari-init');
+    let session: RatchetSession;
+    if (this.address < address) {
+      const dhs = await SHOGUN_SEA.pair() as SEAKeyPair;
+      const [rk, cks] = ratchetKdf(root, await SHOGUN_SEA.secret(peer.epub, dhs) as string, 'yari-ratchet');
+      session = { rk, dhs, dhr: peer.epub, cks, ckr: initial, ns: 0, nr: 0, pn: 0, skipped: new Map(), received: 0 };
+    } else {
+      session = { rk: root, dhs: this.sea!, dhr: null, cks: initial, ckr: null, ns: 0, nr: 0, pn: 0, skipped: new Map(), received: 0 };
+    }
+    this.sessions.set(address, session);
+    return session;
+  }
+
+  /**
+   * Encrypt a message with the next key of our sending chain.
+   * `kind` is 'm' for messages, 'r' for the empty ones that only ratchet
+   */
+  private ratchetEncrypt(address: string, message: any, kind: 'm' | 'r' = 'm'): Promise<any> {
+    return this.inSession(address, async () => {
+      const session = await this.session(address);
+      const [ck, mk] = chainStep(session.cks!);
+      const header: RatchetHeader = { dh: session.dhs.epub, pn: session.pn, n: session.ns };
+      session.cks = ck;
+      session.ns++;
+      session.received = 0;
+
+      const nonce = nacl.randomBytes(nacl.secretbox.nonceLength);
+      const sealed = nacl.secretbox(toBuffer(JSON.stringify([header, message, kind])), nonce, mk);
+      return { yariRatchet: header, nonce: toBase64(nonce), data: toBase64(sealed) };
+    });
+  }
+
+  /**
+   * Decrypt a ratchet message, stepping the DH ratchet when the peer's key changed.
+   * Keys of messages skipped on the way are kept, GunDB may deliver them late.
+   * The session is only updated once the message opens, forged messages leave it untouched
+   */
+  private ratchetDecrypt(address: string, packet: any): Promise<{ message: any, kind: string }> {
+    return this.inSession(address, async () => {
+      const session = await this.session(address);
+      const header = packet.yariRatchet as RatchetHeader;
+      if (typeof header.dh !== 'string' || !Number.isInteger(header.n) || !Number.isInteger(header.pn)) {
+        throw new Error('Malformed ratchet header');
+      }
+
+      const state: RatchetSession = { ...session, skipped: new Map(session.skipped) };
+      const skippedId = header.dh + ':' + header.n;
+      let mk = state.skipped.get(skippedId);
+      if (mk) {
+        state.skipped.delete(skippedId);
+      } else {
+        if (header.dh !== state.dhr) {
+          this.skipMessageKeys(state, header.pn);
+          // DH ratchet step: new receiving chain from the peer's key, new sending chain from a new pair of ours
+          state.pn = state.ns;
+          state.ns = 0;
+          state.nr = 0;
+          state.dhr = header.dh;
+          [state.rk, state.ckr] = ratchetKdf(state.rk, await SHOGUN_SEA.secret(header.dh, state.dhs) as string, 'yari-ratchet');
+          state.dhs = await SHOGUN_SEA.pair() as SEAKeyPair;
+          [state.rk, state.cks] = ratchetKdf(state.rk, await SHOGUN_SEA.secret(header.dh, state.dhs) as string, 'yari-ratchet');
+        }
+        if (header.n < state.nr || !state.ckr) {
+          throw new Error('Duplicate or expired ratchet message');
+        }
+        this.skipMessageKeys(state, header.n);
+        [state.ckr, mk] = chainStep(state.ckr);
+        state.nr++;
+      }
+
+      const opened = nacl.secretbox.open(new Uint8Array(fromBase64(packet.data)), new Uint8Array(fromBase64(packet.nonce)), mk);
+      if (!opened) {
+        throw new Error('Cannot open ratchet message');
+      }
+      const [sealedHeader, message, kind] = JSON.parse(toString(opened));
+      if (sealedHeader.dh !== header.dh || sealedHeader.n !== header.n || sealedHeader.pn !== header.pn) {
+        throw new Error('Ratchet header does not match');
+      }
+
+      Object.assign(session, state);
+      session.received++;
+      if (session.received >= RATCHET_INTERVAL) {
+        this.sendRatchet(address);
+      }
+      return { message, kind };
+    });
+  }
+
+  /**
+   * Keep the keys of the messages on the receiving chain before `until`
+   */
+  private skipMessageKeys(state: RatchetSession, until: number): void {
+    if (!state.ckr || until <= state.nr) return;
+    if (until - state.nr > RATCHET_MAX_SKIP) {
+      throw new Error('Too many skipped ratchet messages');
+    }
+    while (state.nr < until) {
+      const [ck, mk] = chainStep(state.ckr);
+      state.skipped.set(state.dhr + ':' + state.nr, mk);
+      state.ckr = ck;
+      state.nr++;
+    }
+    // Forget the oldest keys, their messages are most likely lost
+    for (const id of state.skipped.keys()) {
+      if (state.skipped.size <= RATCHET_MAX_SKIPPED) break;
+      state.skipped.delete(id);
+    }
+  }
+
+  /**
+   * Send an empty ratchet message, after many messages in a row from a peer, so its next ones use new keys
+   */
+  private sendRatchet(address: string): void {
+    // Queued behind the current decryption, which holds the session
+    this.ratchetEncrypt(address, null, 'r')
+      .then((enc) => this.yumi.send(address, enc))
+      .catch((e) => console.warn('⚠️ Cannot ratchet with', address.slice(0, 12) + '...:', e));
+  }
+
+  /**
+   * Decrypt a broadcast encrypted with a channel key, sent by one of its members
+   */
+  private async decryptGroup(address: string, message: { yariGroup: string, data: string }): Promise<any> {
+    const group = this.groupKeys.get(message.yariGroup);
+    if (!group) {
+      throw new Error('Unknown channel key: ' + message.yariGroup);
+    }
+    if (!group.members.includes(address)) {
+      throw new Error('Sender is not a member of channel key: ' + message.yariGroup);
+    }
+    return await SHOGUN_SEA.decrypt(message.data, group.key);
+  }
+
+  /**
+   * Wait until SEA keys have been exchanged with a peer
+   */
+  waitForPeer(address: string, timeout: number = 5000): Promise<void> {
+    if (this.peers[address]) {
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve, reject) => {
+      const onPeer = () => {
+        if (this.peers[address]) {
+          clearTimeout(timer);
+          this.events.off('newPeer', onPeer);
+          resolve();
+        }
+      };
+      const timer = setTimeout(() => {
+        this.events.off('newPeer', onPeer);
+        reject(new Error('No keys exchanged with peer: ' + address));
+      }, timeout);
+      this.events.on('newPeer', onPeer);
+    });
+  }
+
   /**
    * Clean up processed messages (call periodically to prevent memory leaks)
    */
@@ -296,20 +998,39 @@ class Yari {
       messagesArray.slice(-500).forEach(msg => this.processedMessages.add(msg));
       console.log('🧹 Cleaned up old processed messages');
     }
+
+    const now = Date.now();
+    for (const [id, expiresAt] of this.mailDelivered.entries()) {
+      if (now > expiresAt) this.mailDelivered.delete(id);
+    }
   }
 
   /**
    * Enhanced destroy method with cleanup
    */
   destroy(): void {
-    // Clear cleanup timer
+    // Clear cleanup and ping timers
     if (this.cleanupInterval) {
       clearInterval(this.cleanupInterval);
       this.cleanupInterval = null;
     }
+    if (this.pingInterval) {
+      clearInterval(this.pingInterval);
+      this.pingInterval = null;
+    }
     
     // Clear processed messages
     this.processedMessages.clear();
+
+    if (this.rotateTimer) {
+      clearTimeout(this.rotateTimer);
+      this.rotateTimer = null;
+    }
+    this.sessions.clear();
+
+    // Stop listening for acknowledgements, the mailbox listener stops with Yumi
+    this.outbox.forEach((listener) => listener.off());
+    this.outbox.clear();
     
     // Call original destroy
     this.yumi.destroy();
@@ -320,7 +1041,7 @@ class Yari {
 }
 
 // Exports
-export { Yari };
+export { Yari, YariError };
 export default Yari;
 
 
@@ -104,6 +104,7 @@ class Yumi extends EventEmitter {
   callbacks: Record<string, RPCCallback>;
   serveraddress: string | null;
   heartbeattimer: any;
+  destroyed: boolean;
   gun: any;
   channel: any;
   messages: any;
@@ -214,6 +215,7 @@ class Yumi extends EventEmitter {
     this.channel = this.gun.get(this.identifier);
     this.messages = this.channel.get("messages");
     this.presence = this.channel.get("presence");
+    this.destroyed = false;
 
     // Setup message listener
     this._setupMessageListener();
@@ -236,7 +238,11 @@ class Yumi extends EventEmitter {
     const self = this;
 
     // Listen for new messages
-    this.messages.map().on((data: any, key: string) => {
+    this.messages.map().on((data: any, key: string, msg: any, eve: any) => {
+      if (self.destroyed) {
+        eve.off();
+        return;
+      }
       if (data && data.m && data.t) {
         // Reconstruct message buffer
         const message = fromBase64(data.m);
@@ -253,7 +259,11 @@ class Yumi extends EventEmitter {
     const self = this;
 
     // Listen for peer presence announcements
-    this.presence.map().on((data: any, key: string) => {
+    this.presence.map().on((data: any, key: string, msg: any, eve: any) => {
+      if (self.destroyed) {
+        eve.off();
+        return;
+      }
       if (data && data.pk && data.ek && data.t) {
         const pk = data.pk;
         const ek = data.ek;
@@ -349,13 +359,9 @@ class Yumi extends EventEmitter {
     const packet = makePacket(this, { y: "x" });
     sendRaw(this, packet);
 
-    // Clean up Gun subscriptions
-    if (this.messages && this.messages.off) {
-      this.messages.off();
-    }
-    if (this.presence && this.presence.off) {
-      this.presence.off();
-    }
+    // Our listeners drop themselves on their next event: off() on the chains would also
+    // silence other instances sharing this Gun
+    this.destroyed = true;
 
     if (cb) cb();
   }
@@ -436,7 +442,7 @@ class Yumi extends EventEmitter {
         y: "r",
         c: call,
         a: JSON.stringify(args),
-        rn: callnonce,
+        rn: toHex(callnonce), // Packets are JSON, the reply must carry the key of `callbacks`
       });
     } else {
       throw new Error(address + " not seen - no public key.");
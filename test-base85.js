@@ -0,0 +1,76 @@
+#!/usr/bin/env node
+
+/**
+ * Test Base85 Encoding
+ * Round-trips bytes through the Z85 and Gun-safe base85 encodings of utils,
+ * and checks that stored chunk text is something Gun can read back
+ */
+
+import { randomBytes } from 'crypto';
+import 'gun';
+import 'gun/sea.js';
+import { toZ85, fromZ85, toGun85, fromGun85 } from './dist/utils.js';
+
+function fail(reason) {
+  console.log(`  ❌ ${reason}`);
+  process.exit(1);
+}
+
+function throws(fn, message, what) {
+  try {
+    fn();
+  } catch (error) {
+    if (error.message !== message) fail(`${what}: expected "${message}", got "${error.message}"`);
+    console.log(`  ✅ ${what} refused`);
+    return;
+  }
+  fail(`${what} was decoded`);
+}
+
+console.log('🧪 Testing base85 encoding...\n');
+
+// Test 1: The reference vector of the Z85 spec
+console.log('📏 Checking the Z85 reference vector...');
+const hello = Buffer.from([0x86, 0x4f, 0xd2, 0x6f, 0xb5, 0x59, 0xf7, 0x5b]);
+if (toZ85(hello) !== 'HelloWorld') fail(`Encoded as ${toZ85(hello)}`);
+if (!Buffer.from(fromZ85('HelloWorld')).equals(hello)) fail('HelloWorld decoded differently');
+console.log('  ✅ HelloWorld');
+
+// Test 2: Every length round-trips, a final group of n bytes takes n + 1 characters
+console.log('\n🔁 Round-tripping 0 to 64 bytes...');
+for (const [name, encode, decode] of [['Z85', toZ85, fromZ85], ['Gun85', toGun85, fromGun85]]) {
+  for (let length = 0; length <= 64; length++) {
+    for (const bytes of [randomBytes(length), Buffer.alloc(length, 0), Buffer.alloc(length, 0xff)]) {
+      const text = encode(bytes);
+      if (text.length !== length + Math.ceil(length / 4)) fail(`${name}: ${length} bytes took ${text.length} characters`);
+      if (!Buffer.from(decode(text)).equals(bytes)) fail(`${name}: ${length} bytes did not round-trip`);
+    }
+  }
+  console.log(`  ✅ ${name}`);
+}
+
+// Test 3: Text that is not base85 is refused
+console.log('\n🚫 Decoding invalid text...');
+throws(() => fromZ85('Hello1'), 'Invalid base85 length', 'Dangling character');
+throws(() => fromZ85('Hello"orld'), 'Invalid base85 character', 'Quote');
+throws(() => fromGun85('Hello:orld'), 'Invalid base85 character', 'Z85-only character in Gun85');
+throws(() => fromZ85('#####'), 'Invalid base85 group', 'Group above 32 bits');
+
+// Test 4: Gun reads stored chunks back through SEA's parser, which throws on JSON structure characters
+console.log('\n🧩 Parsing chunk text the way SEA does...');
+for (let i = 0; i < 500; i++) {
+  const text = toGun85(randomBytes(1024));
+  if (/["\\:,[\]{}]/.test(text)) fail(`Chunk text holds JSON structure characters: ${text}`);
+  try {
+    JSON.parseAsync(text, () => {});
+  } catch (error) {
+    fail(`Gun cannot parse ${text.slice(0, 40)}...: ${error.message}`);
+  }
+}
+console.log('  ✅ 500 chunks parsed');
+
+console.log('\n' + '='.repeat(50));
+console.log('✅ All base85 checks passed!');
+console.log('='.repeat(50));
+
+process.exit(0);
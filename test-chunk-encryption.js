@@ -0,0 +1,100 @@
+#!/usr/bin/env node
+
+/**
+ * Test Chunk Encryption
+ * Sends the same file twice between two Kunai peers in one process, and checks what GunDB sees:
+ * sealed chunks and file info, no repeated ciphertext within a transfer or across the two
+ */
+
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { randomBytes } from 'crypto';
+import fs from 'fs';
+import Gun from 'gun';
+import Kunai from './dist/kunai.js';
+import { fromGun85 } from './dist/utils.js';
+
+const timer = setTimeout(() => fail('Timed out'), 60000);
+
+function fail(reason) {
+  console.log(`  ❌ ${reason}`);
+  process.exit(1);
+}
+
+async function seen(peer, address) {
+  while (!peer.yumi.peers[address]) await new Promise((resolve) => setTimeout(resolve, 200));
+}
+
+// The stored chunks of a transfer, by index
+async function storedChunks(peer, fileId, count) {
+  const chunks = new Map();
+  peer.yumi.channel.get('chunks').get(fileId).map().once((chunk) => {
+    if (chunk && typeof chunk.data === 'string') chunks.set(chunk.index, fromGun85(chunk.data));
+  });
+  while (chunks.size < count) await new Promise((resolve) => setTimeout(resolve, 200));
+  return chunks;
+}
+
+function contains(haystack, needle) {
+  return Buffer.from(haystack).indexOf(Buffer.from(needle)) !== -1;
+}
+
+console.log('🧪 Testing chunk encryption...\n');
+
+const dir = fs.mkdtempSync(join(tmpdir(), 'kunai-encryption-'));
+
+// One in-process graph: Gun only fires local updates with a storage, and nothing may leave the process
+const gun = Gun({ peers: [], file: join(dir, 'radata'), multicast: false, axe: false });
+// Chunks stay in GunDB after delivery so they can be inspected
+const options = { gun, chunkSize: 1024, cleanupDelay: 60000 };
+const sender = new Kunai('kunai-encryption-test', options);
+const receiver = new Kunai('kunai-encryption-test', options);
+
+// Four identical chunks: a repeated nonce would show as repeated ciphertext
+const block = randomBytes(1024);
+const bytes = Buffer.concat([block, block, block, block]);
+const file = { name: 'secret-plans.bin', size: bytes.length };
+
+console.log('📡 Waiting for the peers...');
+await seen(sender, receiver.address());
+await seen(receiver, sender.address());
+console.log('  ✅ Peers connected');
+
+// Test 1: The receiver decrypts the file
+console.log('\n📥 Sending the file twice...');
+const codes = [await sender.sendFile(file, bytes), await sender.sendFile(file, bytes)];
+for (const code of codes) {
+  const result = await receiver.receiveFile(code, { timeout: 20000 });
+  if (!Buffer.from(result.data).equals(bytes)) fail('Received file differs from the source');
+}
+console.log('  ✅ Both transfers received intact');
+
+// Test 2: GunDB only sees sealed chunks
+console.log('\n🔒 Checking the stored chunks...');
+const [first, second] = await Promise.all(codes.map((code) => storedChunks(sender, code.split('-')[0], 4)));
+for (const chunk of [...first.values(), ...second.values()]) {
+  if (contains(chunk, block.subarray(0, 32))) fail('A chunk is stored in plaintext');
+  if (chunk.length !== block.length + 16) fail(`Chunk of ${chunk.length} bytes is not a sealed 1 KB chunk`);
+}
+console.log('  ✅ Chunks are sealed');
+
+// Test 3: Every chunk has its own nonce, and every transfer its own key
+const ciphertexts = new Set([...first.values(), ...second.values()].map((chunk) => Buffer.from(chunk).toString('hex')));
+if (ciphertexts.size !== 8) fail(`${8 - ciphertexts.size} identical chunks share a ciphertext`);
+console.log('  ✅ Identical chunks are sealed differently, within and across transfers');
+
+// Test 4: The file info is sealed too
+console.log('\n🏷️  Checking the stored file info...');
+const metadata = await new Promise((resolve) => sender.yumi.channel.get('files').get(codes[0].split('-')[0]).once(resolve));
+if (!metadata?.encrypted || typeof metadata.info !== 'string') fail('File info is not sealed');
+if (JSON.stringify(metadata).includes(file.name) || 'name' in metadata) fail('File name is stored in plaintext');
+console.log('  ✅ File name is sealed');
+
+clearTimeout(timer);
+fs.rmSync(dir, { recursive: true, force: true });
+
+console.log('\n' + '='.repeat(50));
+console.log('✅ All chunk encryption checks passed!');
+console.log('='.repeat(50));
+
+process.exit(0);
@@ -0,0 +1,102 @@
+#!/usr/bin/env node
+
+/**
+ * Test Chunk Integrity
+ * Checks that a receiver verifies the sender's signed Merkle root and chunk hashes:
+ * forged chunks in GunDB are dropped, altered metadata is refused
+ */
+
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { randomBytes } from 'crypto';
+import fs from 'fs';
+import Gun from 'gun';
+import Kunai from './dist/kunai.js';
+import { toGun85 } from './dist/utils.js';
+
+const timer = setTimeout(() => fail('Timed out'), 60000);
+
+function fail(reason) {
+  console.log(`  ❌ ${reason}`);
+  process.exit(1);
+}
+
+async function seen(peer, address) {
+  while (!peer.yumi.peers[address]) await new Promise((resolve) => setTimeout(resolve, 200));
+}
+
+function expect(reason, expected, what) {
+  if (reason !== expected) fail(`${what}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(reason)}`);
+  console.log(`  ✅ ${what}: ${expected}`);
+}
+
+console.log('🧪 Testing chunk integrity...\n');
+
+const dir = fs.mkdtempSync(join(tmpdir(), 'kunai-integrity-'));
+
+// One in-process graph: Gun only fires local updates with a storage, and nothing may leave the process
+const gun = Gun({ peers: [], file: join(dir, 'radata'), multicast: false, axe: false });
+const options = { gun, chunkSize: 1024 };
+const sender = new Kunai('kunai-integrity-test', options);
+const receiver = new Kunai('kunai-integrity-test', options);
+const mallory = new Kunai('kunai-integrity-test', options);
+
+const bytes = randomBytes(5 * 1024);
+const file = { name: 'report.bin', size: bytes.length };
+
+console.log('📡 Waiting for the peers...');
+await seen(sender, receiver.address());
+await seen(receiver, sender.address());
+console.log('  ✅ Peers connected');
+
+// Test 1: A chunk that doesn't match the signed hashes is dropped
+console.log('\n🧨 Replacing a chunk of an open transfer whose sender went away...');
+const fileId = await sender.sendFile(file, bytes, { open: true });
+const chunks = mallory.yumi.channel.get('chunks').get(fileId);
+const uploaded = new Map();
+chunks.map().once((chunk, key) => chunk && uploaded.set(chunk.index, key));
+while (uploaded.size < 5) await new Promise((resolve) => setTimeout(resolve, 200));
+// Only GunDB is left to serve the chunks
+sender.destroy();
+await new Promise((resolve) => chunks.get(uploaded.get(2)).get('data').put(toGun85(randomBytes(1024)), resolve));
+
+const rejected = new Set();
+const readChunk = receiver.readChunk.bind(receiver);
+receiver.readChunk = (transfer, index, data) => {
+  const chunk = readChunk(transfer, index, data);
+  if (chunk === null) rejected.add(index);
+  return chunk;
+};
+
+const received = await receiver.receiveFile(fileId, { timeout: 5000 }).then(() => true, () => false);
+if ([...rejected].join() !== '2') fail(`Rejected chunks: ${[...rejected].join() || 'none'}, expected chunk 2`);
+console.log('  ✅ Replaced chunk rejected');
+if (received) fail('Transfer completed without chunk 2');
+console.log('  ✅ Transfer did not complete without it');
+
+// Test 2: Metadata only verifies as the sender signed it
+console.log('\n🔏 Altering the signed metadata...');
+const genuine = await new Promise((resolve) => receiver.yumi.channel.get('files').get(fileId).once(resolve));
+expect(receiver.verifyMetadata({ ...genuine }, fileId), null, 'Genuine metadata');
+
+const hashes = genuine.chunkHashes;
+const forgedHash = randomBytes(32).toString('hex');
+expect(receiver.verifyMetadata({ ...genuine, chunkHashes: forgedHash + hashes.slice(64) }, fileId),
+  'Merkle root does not match chunk hashes', 'Replaced chunk hash');
+expect(receiver.verifyMetadata({ ...genuine, chunkHashes: hashes.slice(64) }, fileId),
+  'Chunk hash list does not match chunk count', 'Dropped chunk hash');
+expect(receiver.verifyMetadata({ ...genuine, merkleRoot: forgedHash }, fileId),
+  'Invalid metadata signature', 'Replaced Merkle root');
+expect(receiver.verifyMetadata({ ...genuine }, 'someone-else'),
+  'Invalid metadata signature', 'Metadata copied to another transfer');
+expect(receiver.verifyMetadata({ ...genuine, pk: mallory.yumi.pk }, fileId),
+  'Signing key does not match sender', 'Signing key of another peer');
+
+clearTimeout(timer);
+fs.rmSync(dir, { recursive: true, force: true });
+
+console.log('\n' + '='.repeat(50));
+console.log('✅ All chunk integrity checks passed!');
+console.log('='.repeat(50));
+
+process.exit(0);
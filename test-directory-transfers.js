@@ -0,0 +1,110 @@
+#!/usr/bin/env node
+
+/**
+ * Test Directory Transfers
+ * Sends a directory between two Kunai peers in one process, and checks that a receiver keeps every
+ * file of a manifest inside its download directory, whatever names and paths the sender signed
+ */
+
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { randomBytes } from 'crypto';
+import fs from 'fs';
+import Gun from 'gun';
+import Kunai from './dist/kunai.js';
+
+const timer = setTimeout(() => fail('Timed out'), 60000);
+
+function fail(reason) {
+  console.log(`  ❌ ${reason}`);
+  process.exit(1);
+}
+
+async function seen(peer, address) {
+  while (!peer.yumi.peers[address]) await new Promise((resolve) => setTimeout(resolve, 200));
+}
+
+// Reason the receive failed, or null if it succeeded
+function receiveError(peer, code, options) {
+  return peer.receiveFile(code, { timeout: 10000, ...options }).then(() => null, (error) => error.message);
+}
+
+// Publish a directory transfer with a manifest of our choosing, as a modified client could
+function sendManifest(peer, name, entries) {
+  const data = Buffer.concat(entries.map((entry) => entry.data));
+  const files = entries.map((entry) => ({ path: entry.path, size: entry.data.length, mode: 0o644 }));
+  const reader = async () => ({ totalChunks: 1, read: async () => data, close: async () => {} });
+  return peer.publishFile({ name, size: data.length, type: 'application/x-kunai-directory', files }, reader, { open: true });
+}
+
+console.log('🧪 Testing directory transfers...\n');
+
+const dir = fs.mkdtempSync(join(tmpdir(), 'kunai-directory-'));
+const source = join(dir, 'project');
+const downloads = join(dir, 'downloads');
+fs.mkdirSync(join(source, 'src', 'lib'), { recursive: true });
+fs.mkdirSync(downloads);
+
+const tree = {
+  'README.md': Buffer.from('# Project\n'),
+  'src/index.js': randomBytes(3000),
+  'src/lib/util.js': randomBytes(1500)
+};
+for (const [file, data] of Object.entries(tree)) fs.writeFileSync(join(source, file), data);
+
+// One in-process graph: Gun only fires local updates with a storage, and nothing may leave the process
+const gun = Gun({ peers: [], file: join(dir, 'radata'), multicast: false, axe: false });
+const options = { gun, chunkSize: 1024 };
+const sender = new Kunai('kunai-directory-test', options);
+const receiver = new Kunai('kunai-directory-test', { ...options, downloadDir: downloads });
+
+console.log('📡 Waiting for the peers...');
+await seen(sender, receiver.address());
+await seen(receiver, sender.address());
+console.log('  ✅ Peers connected');
+
+// Test 1: The tree is recreated under the download directory
+console.log('\n📁 Sending a directory...');
+const result = await receiver.receiveFile(await sender.sendDirectory(source), { timeout: 20000 });
+if (result.path !== join(downloads, 'project')) fail(`Directory received at ${result.path}`);
+for (const [file, data] of Object.entries(tree)) {
+  if (!fs.readFileSync(join(result.path, file)).equals(data)) fail(`${file} differs from the source`);
+}
+console.log('  ✅ Every file received intact');
+
+// Test 2: Paths leaving the directory are refused before anything is written
+console.log('\n🧨 Sending manifests with unsafe paths...');
+const payload = Buffer.from('gotcha');
+for (const unsafe of ['../escape.txt', 'src/../../escape.txt', '/tmp/escape.txt', 'C:/escape.txt', 'src\\..\\..\\escape.txt']) {
+  const reason = await receiveError(receiver, await sendManifest(sender, 'innocent', [{ path: unsafe, data: payload }]));
+  if (reason !== 'Unsafe path in directory manifest: ' + unsafe) fail(`${unsafe} was not refused: ${reason}`);
+  console.log(`  ✅ ${unsafe} refused`);
+}
+if (fs.existsSync(join(dir, 'escape.txt')) || fs.existsSync(join(downloads, 'innocent'))) {
+  fail('An unsafe manifest wrote files');
+}
+console.log('  ✅ Nothing was written');
+
+// Test 3: A directory name that is not a plain name falls back to the transfer id
+console.log('\n🏷️  Sending a directory named ..');
+const fileId = await sendManifest(sender, '..', [{ path: 'inside.txt', data: payload }]);
+const renamed = await receiver.receiveFile(fileId, { timeout: 20000 });
+if (renamed.path !== join(downloads, fileId)) fail(`Directory named .. received at ${renamed.path}`);
+if (!fs.readFileSync(join(renamed.path, 'inside.txt')).equals(payload)) fail('inside.txt differs from the source');
+console.log('  ✅ Received under its transfer id');
+
+// Test 4: Files already at an explicit destination are never replaced
+console.log('\n🛑 Sending the directory again to the same destination...');
+const taken = await receiveError(receiver, await sender.sendDirectory(source), { destination: result.path });
+if (taken !== 'File already exists: ' + join(result.path, 'README.md')) fail(`Existing files were not protected: ${taken}`);
+if (!fs.readFileSync(join(result.path, 'README.md')).equals(tree['README.md'])) fail('README.md was changed');
+console.log('  ✅ Refused without touching the existing files');
+
+clearTimeout(timer);
+fs.rmSync(dir, { recursive: true, force: true });
+
+console.log('\n' + '='.repeat(50));
+console.log('✅ All directory transfer checks passed!');
+console.log('='.repeat(50));
+
+process.exit(0);
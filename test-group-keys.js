@@ -0,0 +1,114 @@
+#!/usr/bin/env node
+
+/**
+ * Test Group Keys
+ * Checks channel keys between Yari peers in one process with `groupKey` on: a broadcast is one
+ * ciphertext for the members of the current key, joins and leaves rotate it, and a key only opens
+ * messages from the members it was made for
+ */
+
+import { tmpdir } from 'os';
+import { join } from 'path';
+import fs from 'fs';
+import Gun from 'gun';
+import { SEA } from 'shogun-core';
+import Yari from './dist/yari.js';
+
+const timer = setTimeout(() => fail('Timed out'), 90000);
+
+function fail(reason) {
+  console.log(`  ❌ ${reason}`);
+  process.exit(1);
+}
+
+async function until(condition) {
+  while (!condition()) await new Promise((resolve) => setTimeout(resolve, 200));
+}
+
+// Every peer holds the same current channel key, made for exactly them
+function settled(peers) {
+  const [first] = peers;
+  return peers.every((peer) => peer.groupKey && peer.groupKey.id === first.groupKey.id &&
+    peer.groupKey.members.length === peers.length && peers.every((member) => peer.groupKey.members.includes(member.address)));
+}
+
+// Peer with the messages it decrypted and the packets it sent
+function member(options = {}) {
+  const peer = new Yari('kunai-group-test', { gun, groupKey: true, ...options });
+  peer.inbox = [];
+  peer.sent = [];
+  peer.on('decrypted', (from, pubkeys, message) => peer.inbox.push({ from, message }));
+  const send = peer.yumi.send.bind(peer.yumi);
+  peer.yumi.send = (...args) => {
+    peer.sent.push(args);
+    return send(...args);
+  };
+  return peer;
+}
+
+function received(peer, from, message) {
+  return peer.inbox.some((entry) => entry.from === from.address && entry.message === message);
+}
+
+console.log('🧪 Testing group keys...\n');
+
+const dir = fs.mkdtempSync(join(tmpdir(), 'kunai-group-'));
+
+// One in-process graph: Gun only fires local updates with a storage, and nothing may leave the process
+const gun = Gun({ peers: [], file: join(dir, 'radata'), multicast: false, axe: false });
+const members = [member(), member(), member()];
+const [alice, bob, carol] = members;
+
+console.log('🔑 Waiting for a channel key...');
+await until(() => settled(members));
+console.log('  ✅ One channel key for the three members');
+
+// Test 1: A broadcast is one ciphertext every member opens
+console.log('\n📡 Broadcasting...');
+bob.sent.length = 0;
+await bob.send('hello members');
+if (bob.sent.length !== 1 || bob.sent[0][0]?.yariGroup !== bob.groupKey.id) fail(`Broadcast sent as ${bob.sent.length} packet(s)`);
+await until(() => received(alice, bob, 'hello members') && received(carol, bob, 'hello members'));
+console.log('  ✅ One packet, opened by every member');
+
+// Test 2: A peer joining gets a new key, not the one before it
+console.log('\n🚪 A peer joins...');
+const leaked = alice.groupKey;
+const mallory = member();
+await until(() => settled([...members, mallory]));
+if (alice.groupKey.id === leaked.id || mallory.groupKeys.has(leaked.id)) fail('The joining peer got the previous key');
+console.log('  ✅ Channel key rotated for the four members');
+
+await mallory.send('hello from the new member');
+await until(() => members.every((peer) => received(peer, mallory, 'hello from the new member')));
+console.log('  ✅ New member broadcasts with the new key');
+
+// Test 3: The previous key opens nothing from a peer it was not made for, even if it leaked
+console.log('\n🧨 Sending with a leaked key the sender was not a member of...');
+mallory.yumi.send({ yariGroup: leaked.id, data: await SEA.encrypt('forged with the old key', leaked.key) });
+await new Promise((resolve) => setTimeout(resolve, 2000));
+if (members.some((peer) => received(peer, mallory, 'forged with the old key'))) fail('Message sent with a key for other members was opened');
+console.log('  ✅ Refused by every member');
+
+// Test 4: A peer leaving gets no later key
+console.log('\n👋 The new member leaves...');
+const joined = alice.groupKey;
+mallory.destroy();
+await until(() => settled(members) && alice.groupKey.id !== joined.id);
+if (mallory.groupKeys.has(alice.groupKey.id)) fail('The peer that left got the new key');
+console.log('  ✅ Channel key rotated for the three members left');
+
+carol.sent.length = 0;
+await carol.send('hello again');
+if (carol.sent.length !== 1 || carol.sent[0][0]?.yariGroup !== alice.groupKey.id) fail(`Broadcast sent as ${carol.sent.length} packet(s)`);
+await until(() => received(alice, carol, 'hello again') && received(bob, carol, 'hello again'));
+console.log('  ✅ Broadcast with the new key, opened by the members left');
+
+clearTimeout(timer);
+fs.rmSync(dir, { recursive: true, force: true });
+
+console.log('\n' + '='.repeat(50));
+console.log('✅ All group key checks passed!');
+console.log('='.repeat(50));
+
+process.exit(0);
@@ -0,0 +1,123 @@
+#!/usr/bin/env node
+
+/**
+ * Test Key Bundles
+ * Checks how Yari peers in one process accept SEA keys: only bundles signed by the Yumi key
+ * of their sender, changes raise `key-changed` (refused with pinKeys), replays of replaced
+ * keys are refused, and a Kunai with a state directory keeps its keys across restarts
+ */
+
+import { tmpdir } from 'os';
+import { join } from 'path';
+import fs from 'fs';
+import Gun from 'gun';
+import { SEA } from 'shogun-core';
+import Kunai from './dist/kunai.js';
+import Yari from './dist/yari.js';
+
+const timer = setTimeout(() => fail('Timed out'), 60000);
+
+function fail(reason) {
+  console.log(`  ❌ ${reason}`);
+  process.exit(1);
+}
+
+async function until(condition) {
+  while (!condition()) await new Promise((resolve) => setTimeout(resolve, 200));
+}
+
+// Yumi never times out a call, so an unanswered one fails the test instead of hanging it
+function rpc(peer, address, call, args, timeout = 5000) {
+  return new Promise((resolve) => {
+    const timer = setTimeout(() => fail(`${call} to ${address.slice(0, 12)}... went unanswered`), timeout);
+    peer.rpc(address, call, args, (reply) => {
+      clearTimeout(timer);
+      resolve(reply);
+    });
+  });
+}
+
+function expect(reply, error, what) {
+  const got = reply?.success ? null : reply?.error;
+  if (got !== error) fail(`${what}: expected ${error ? `"${error}"` : 'success'}, got ${JSON.stringify(reply)}`);
+  console.log(`  ✅ ${what}: ${error || 'accepted'}`);
+}
+
+// The next `key-changed` event of a peer
+function keyChange(peer) {
+  return new Promise((resolve) => {
+    peer.on('key-changed', (address, previous, next, rejected) => resolve({ address, previous, next, rejected }));
+  });
+}
+
+console.log('🧪 Testing key bundles...\n');
+
+const dir = fs.mkdtempSync(join(tmpdir(), 'kunai-keys-'));
+
+// One in-process graph: Gun only fires local updates with a storage, and nothing may leave the process
+const gun = Gun({ peers: [], file: join(dir, 'radata'), multicast: false, axe: false });
+const alice = new Yari('kunai-keys-test', { gun });
+const bob = new Yari('kunai-keys-test', { gun });
+const carol = new Yari('kunai-keys-test', { gun, pinKeys: true });
+const mallory = new Yari('kunai-keys-test', { gun });
+
+console.log('🔑 Waiting for the key exchange...');
+await until(() => [bob, carol, mallory].every((peer) => alice.peers[peer.address] && peer.peers[alice.address]));
+await until(() => carol.peers[bob.address]);
+console.log('  ✅ Keys exchanged');
+
+// Test 1: Only bundles signed by their sender's Yumi key are accepted
+console.log('\n🧨 Sending forged bundles...');
+const genuine = mallory.signKeys(await mallory.SEA());
+expect(await rpc(mallory, alice.address, 'peer', genuine), null, 'Own signed keys');
+expect(await rpc(mallory, alice.address, 'peer', { ...genuine, epub: (await SEA.pair()).epub }), 'Invalid signature', 'Swapped encryption key');
+expect(await rpc(mallory, alice.address, 'peer', { ...genuine, t: genuine.t + 1 }), 'Invalid signature', 'Changed timestamp');
+expect(await rpc(mallory, alice.address, 'peer', { ...genuine, ratchet: undefined }), 'Invalid signature', 'Dropped ratchet flag');
+expect(await rpc(mallory, alice.address, 'peer', bob.signKeys(bob.sea)), 'Signing key does not match sender', "Bob's keys relayed");
+expect(await rpc(mallory, alice.address, 'peer', { pub: genuine.pub, epub: genuine.epub }), 'Keys are not signed', 'Unsigned keys');
+if (alice.peers[mallory.address].pub !== genuine.pub) fail('Forged bundles changed the keys');
+
+// Test 2: New keys are accepted with a warning, or refused when keys are pinned
+console.log('\n🔄 Changing the keys of a peer...');
+const old = bob.signKeys(bob.sea);
+const previous = bob.sea.pub;
+const pair = await SEA.pair();
+const changes = [keyChange(alice), keyChange(carol)];
+bob.SEA(pair);
+expect(await rpc(bob, alice.address, 'peer', bob.signKeys(pair)), null, 'New keys');
+expect(await rpc(bob, carol.address, 'peer', bob.signKeys(pair)), 'Keys are pinned', 'New keys with pinKeys');
+
+const [seen, pinned] = await Promise.all(changes);
+if (seen.address !== bob.address || seen.previous.pub !== previous || seen.next.pub !== pair.pub || seen.rejected) {
+  fail(`Unexpected key-changed event: ${JSON.stringify(seen)}`);
+}
+if (alice.peers[bob.address].pub !== pair.pub) fail('New keys were not stored');
+console.log('  ✅ key-changed raised, new keys stored');
+if (!pinned.rejected || carol.peers[bob.address].pub !== previous) fail('Pinned keys were replaced');
+console.log('  ✅ key-changed raised as rejected, pinned keys kept');
+
+// Test 3: A replayed bundle cannot bring back replaced keys
+expect(await rpc(bob, alice.address, 'peer', old), 'Outdated keys', 'Replayed old keys');
+
+// Test 4: A Kunai with a state directory keeps its SEA keys, so peers see no change after a restart
+console.log('\n💾 Restarting an encrypted Kunai...');
+const stateDir = join(dir, 'state');
+const first = new Kunai('kunai-keys-test', { gun, encrypted: true, stateDir });
+const keys = await first.yari.SEA();
+await until(() => fs.existsSync(join(stateDir, 'kunai.sea')));
+first.destroy();
+if ((fs.statSync(join(stateDir, 'kunai.sea')).mode & 0o777) !== 0o600) fail('Saved keys are readable by others');
+
+const second = new Kunai('kunai-keys-test', { gun, encrypted: true, stateDir });
+if (second.address() !== first.address()) fail('Address changed after the restart');
+if ((await second.yari.SEA()).pub !== keys.pub) fail('SEA keys changed after the restart');
+console.log('  ✅ Same address and SEA keys after the restart');
+
+clearTimeout(timer);
+fs.rmSync(dir, { recursive: true, force: true });
+
+console.log('\n' + '='.repeat(50));
+console.log('✅ All key bundle checks passed!');
+console.log('='.repeat(50));
+
+process.exit(0);
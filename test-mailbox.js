@@ -0,0 +1,88 @@
+#!/usr/bin/env node
+
+/**
+ * Test Mailbox
+ * Checks offline messages between Yari peers in one process: a message to a peer that is gone is left
+ * sealed to its prekey, which its seed brings back, and is read once when it returns
+ */
+
+import { tmpdir } from 'os';
+import { join } from 'path';
+import fs from 'fs';
+import Gun from 'gun';
+import Yari from './dist/yari.js';
+
+const timer = setTimeout(() => fail('Timed out'), 60000);
+
+function fail(reason) {
+  console.log(`  ❌ ${reason}`);
+  process.exit(1);
+}
+
+async function until(condition) {
+  while (!condition()) await new Promise((resolve) => setTimeout(resolve, 200));
+}
+
+console.log('🧪 Testing the mailbox...\n');
+
+const dir = fs.mkdtempSync(join(tmpdir(), 'kunai-mailbox-'));
+
+// One in-process graph: Gun only fires local updates with a storage, and nothing may leave the process
+const gun = Gun({ peers: [], file: join(dir, 'radata'), multicast: false, axe: false });
+const channel = 'kunai-mailbox-test';
+
+// Test 1: The prekey follows from the seed
+console.log('🔑 Starting a peer and letting it go...');
+const bob = new Yari(channel, { gun });
+const { seed } = bob.yumi;
+await bob.SEA();
+const prekey = await new Promise((resolve) => bob.yumi.channel.get('prekeys').get(bob.address).once(resolve));
+if (prekey?.key !== bob.prekey) fail('Prekey was not published');
+bob.destroy();
+console.log('  ✅ Prekey published');
+
+// Test 2: A message to a peer without keys is left in its mailbox, sealed
+console.log('\n📮 Sending to the peer while it is gone...');
+const alice = new Yari(channel, { gun });
+const secret = { text: 'meet at the bridge', at: 21 };
+const id = await alice.send(bob.address, secret).then(() => new Promise((resolve) => {
+  alice.yumi.channel.get('mailbox').get(bob.address).map().once((envelope, key) => envelope?.data && resolve(key));
+}));
+const envelope = await new Promise((resolve) => alice.yumi.channel.get('mailbox').get(bob.address).get(id).once(resolve));
+if (envelope.prekey !== prekey.key) fail('Message is not sealed to the published prekey');
+if (JSON.stringify(envelope).includes(secret.text)) fail('Message is stored in cleartext');
+console.log('  ✅ Message left in the mailbox, sealed to the prekey');
+
+// Test 3: The peer comes back with its seed, reads the message once and removes it
+console.log('\n📬 Bringing the peer back...');
+let delivered = false;
+alice.on('mail-delivered', (address, mail) => {
+  if (address === bob.address && mail === id) delivered = true;
+});
+const returned = new Yari(channel, { gun, seed });
+if (returned.address !== bob.address || returned.prekey !== bob.prekey) fail('Seed did not bring back the address and prekey');
+console.log('  ✅ Same address and prekey from the seed');
+
+const inbox = [];
+returned.on('decrypted', (from, pubkeys, message) => inbox.push({ from, message }));
+await until(() => inbox.length > 0 && delivered);
+if (inbox[0].from !== alice.address || JSON.stringify(inbox[0].message) !== JSON.stringify(secret)) {
+  fail(`Unexpected message: ${JSON.stringify(inbox[0])}`);
+}
+console.log('  ✅ Message read, sender told it was delivered');
+
+// Test 4: Replaying the envelope does not deliver it again
+console.log('\n🔁 Replaying the envelope...');
+alice.yumi.channel.get('mailbox').get(bob.address).get(id).put(envelope);
+await new Promise((resolve) => setTimeout(resolve, 2000));
+if (inbox.length !== 1) fail(`Message delivered ${inbox.length} times`);
+console.log('  ✅ Delivered once');
+
+clearTimeout(timer);
+fs.rmSync(dir, { recursive: true, force: true });
+
+console.log('\n' + '='.repeat(50));
+console.log('✅ All mailbox checks passed!');
+console.log('='.repeat(50));
+
+process.exit(0);
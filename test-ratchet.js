@@ -0,0 +1,140 @@
+#!/usr/bin/env node
+
+/**
+ * Test Ratchet
+ * Checks direct messages between Yari peers in one process: peers that both take ratchet messages
+ * open them in any order, once, and across DH ratchet steps, and peers with `ratchet: false`
+ * still talk with the static SEA secret in both directions
+ */
+
+import { tmpdir } from 'os';
+import { join } from 'path';
+import fs from 'fs';
+import Gun from 'gun';
+import Yari from './dist/yari.js';
+
+const timer = setTimeout(() => fail('Timed out'), 60000);
+
+function fail(reason) {
+  console.log(`  ❌ ${reason}`);
+  process.exit(1);
+}
+
+async function until(condition) {
+  while (!condition()) await new Promise((resolve) => setTimeout(resolve, 200));
+}
+
+// Peer with the messages it decrypted and the packets it sent
+function peer(options = {}) {
+  const yari = new Yari('kunai-ratchet-test', { gun, ...options });
+  yari.inbox = [];
+  yari.sent = [];
+  yari.on('decrypted', (from, pubkeys, message) => yari.inbox.push({ from, message }));
+  const send = yari.yumi.send.bind(yari.yumi);
+  yari.yumi.send = (...args) => {
+    yari.sent.push(args);
+    return send(...args);
+  };
+  return yari;
+}
+
+function received(to, from, message) {
+  return to.inbox.some((entry) => entry.from === from.address && entry.message === message);
+}
+
+// Packet sent to an address, as it went out on the channel
+function packetTo(from, address) {
+  const sent = from.sent.find((args) => args[0] === address);
+  return sent && sent[1];
+}
+
+// Seal messages without sending them, so the test decides when and in which order they arrive
+async function seal(from, to, messages) {
+  const packets = [];
+  for (const message of messages) packets.push(await from.seal(to.address, message));
+  return packets;
+}
+
+// Open packets in the given order, the message of each or null if it was refused
+async function open(to, from, packets) {
+  const opened = [];
+  for (const packet of packets) opened.push((await to.decrypt(from.address, packet))?.message ?? null);
+  return opened;
+}
+
+console.log('🧪 Testing the double ratchet...\n');
+
+const dir = fs.mkdtempSync(join(tmpdir(), 'kunai-ratchet-'));
+
+// One in-process graph: Gun only fires local updates with a storage, and nothing may leave the process
+const gun = Gun({ peers: [], file: join(dir, 'radata'), multicast: false, axe: false });
+const alice = peer();
+const bob = peer();
+const carol = peer({ ratchet: false });
+
+console.log('🔑 Waiting for the key exchange...');
+await until(() => [bob, carol].every((other) => alice.peers[other.address] && other.peers[alice.address]));
+console.log('  ✅ Keys exchanged');
+
+// Test 1: Peers that both take ratchet messages use them, in both directions
+console.log('\n🔁 Sending direct messages between ratchet peers...');
+await alice.send(bob.address, 'hello bob');
+if (!packetTo(alice, bob.address)?.yariRatchet) fail('Message to a ratchet peer was not a ratchet message');
+await until(() => received(bob, alice, 'hello bob'));
+await bob.send(alice.address, 'hello alice');
+if (!packetTo(bob, alice.address)?.yariRatchet) fail('Reply to a ratchet peer was not a ratchet message');
+await until(() => received(alice, bob, 'hello alice'));
+console.log('  ✅ Ratchet messages opened both ways');
+
+// Test 2: Messages of one chain open in any order, and only once
+console.log('\n🔀 Delivering messages out of order...');
+const chain = ['one', 'two', 'three', 'four', 'five'];
+const packets = await seal(alice, bob, chain);
+const shuffled = [4, 0, 2, 1, 3];
+const opened = await open(bob, alice, shuffled.map((i) => packets[i]));
+if (opened.join() !== shuffled.map((i) => chain[i]).join()) fail(`Out of order messages opened as ${JSON.stringify(opened)}`);
+console.log('  ✅ Every message opened');
+
+const replayed = await open(bob, alice, [packets[0], packets[4]]);
+if (replayed.some((message) => message !== null)) fail(`Replayed messages opened: ${JSON.stringify(replayed)}`);
+console.log('  ✅ Replayed messages refused');
+
+// Test 3: A message held back across a DH ratchet step still opens
+console.log('\n⏳ Delivering a message after the keys ratcheted...');
+const [late, early] = await seal(alice, bob, ['late', 'early']);
+if ((await open(bob, alice, [early]))[0] !== 'early') fail('Message sent after the held one did not open');
+const [reply] = await seal(bob, alice, ['reply']);
+if ((await open(alice, bob, [reply]))[0] !== 'reply') fail('Reply did not open');
+const [next] = await seal(alice, bob, ['next']);
+if (next.yariRatchet.dh === late.yariRatchet.dh) fail('Sending key did not ratchet after the reply');
+if ((await open(bob, alice, [next]))[0] !== 'next') fail('Message on the new chain did not open');
+if ((await open(bob, alice, [late]))[0] !== 'late') fail('Message from the previous chain did not open');
+console.log('  ✅ Opened with the kept key of the previous chain');
+
+// Test 4: A tampered message is refused and leaves the session as it was
+console.log('\n🧨 Delivering a tampered message...');
+const [genuine] = await seal(alice, bob, ['genuine']);
+const bytes = Buffer.from(genuine.data, 'base64');
+bytes[0] ^= 1;
+if ((await open(bob, alice, [{ ...genuine, data: bytes.toString('base64') }]))[0] !== null) fail('Tampered message opened');
+if ((await open(bob, alice, [genuine]))[0] !== 'genuine') fail('Genuine message did not open after the tampered one');
+console.log('  ✅ Refused, the genuine message still opens');
+
+// Test 5: A peer with ratchet off gets and sends messages with the static SEA secret
+console.log('\n↩️  Sending direct messages with a peer that takes no ratchet messages...');
+await alice.send(carol.address, 'hello carol');
+if (typeof packetTo(alice, carol.address) !== 'string') fail('Message to a peer without ratchet was not sealed with the static secret');
+await until(() => received(carol, alice, 'hello carol'));
+await carol.send(alice.address, 'hello from carol');
+if (typeof packetTo(carol, alice.address) !== 'string') fail('Peer without ratchet sent a ratchet message');
+await until(() => received(alice, carol, 'hello from carol'));
+console.log('  ✅ Static secret used both ways');
+
+clearTimeout(timer);
+fs.rmSync(dir, { recursive: true, force: true });
+
+console.log('\n' + '='.repeat(50));
+console.log('✅ All ratchet checks passed!');
+console.log('='.repeat(50));
+
+process.exit(0);
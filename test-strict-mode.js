@@ -0,0 +1,87 @@
+#!/usr/bin/env node
+
+/**
+ * Test Strict Mode
+ * Checks that a Yari peer with no keys to encrypt for rejects with a YariError
+ * instead of sending in cleartext, unless `strict` is turned off
+ */
+
+import { tmpdir } from 'os';
+import { join } from 'path';
+import fs from 'fs';
+import Gun from 'gun';
+import { Yari, YariError, Yumi } from './dist/index.js';
+
+const timer = setTimeout(() => fail('Timed out'), 60000);
+
+function fail(reason) {
+  console.log(`  ❌ ${reason}`);
+  process.exit(1);
+}
+
+async function until(condition) {
+  while (!condition()) await new Promise((resolve) => setTimeout(resolve, 200));
+}
+
+// Error code the send rejected with, or null if it was sent
+async function sendError(peer, ...args) {
+  try {
+    await peer.send(...args);
+    return null;
+  } catch (error) {
+    if (!(error instanceof YariError) || error.name !== 'YariError') fail(`Rejected with ${error}, not a YariError`);
+    return error.code;
+  }
+}
+
+// A plain Yumi peer on the channel, collecting what it can read
+function listener(channel) {
+  const peer = new Yumi(channel, { gun });
+  peer.received = [];
+  peer.on('message', (address, message) => peer.received.push(message));
+  return peer;
+}
+
+console.log('🧪 Testing strict mode...\n');
+
+const dir = fs.mkdtempSync(join(tmpdir(), 'kunai-strict-'));
+
+// One in-process graph: Gun only fires local updates with a storage, and nothing may leave the process
+const gun = Gun({ peers: [], file: join(dir, 'radata'), multicast: false, axe: false });
+
+// Test 1: Nothing is sent in cleartext by default
+console.log('🔒 Sending with no keys to encrypt for...');
+const strict = new Yari('kunai-strict-test', { gun });
+const eavesdropper = listener('kunai-strict-test');
+await until(() => strict.yumi.peers[eavesdropper.address()]);
+
+const broadcast = await sendError(strict, 'broadcast secret');
+if (broadcast !== 'NO_PEERS') fail(`Broadcast without peer keys: expected NO_PEERS, got ${broadcast}`);
+console.log('  ✅ Broadcast rejected with NO_PEERS');
+
+const direct = await sendError(strict, eavesdropper.address(), 'direct secret');
+if (direct !== 'PEER_NOT_FOUND') fail(`Direct message without keys or prekey: expected PEER_NOT_FOUND, got ${direct}`);
+console.log('  ✅ Direct message rejected with PEER_NOT_FOUND');
+
+await new Promise((resolve) => setTimeout(resolve, 1000));
+if (eavesdropper.received.length > 0) fail(`Sent in cleartext: ${JSON.stringify(eavesdropper.received)}`);
+console.log('  ✅ Nothing reached the channel');
+
+// Test 2: With strict off, broadcasts fall back to cleartext
+console.log('\n⚠️  Sending with strict mode off...');
+const loose = new Yari('kunai-loose-test', { gun, strict: false });
+const reader = listener('kunai-loose-test');
+await until(() => loose.yumi.peers[reader.address()]);
+
+if (await sendError(loose, 'broadcast notice') !== null) fail('Broadcast was rejected with strict mode off');
+await until(() => reader.received.includes('broadcast notice'));
+console.log('  ✅ Broadcast sent in cleartext');
+
+clearTimeout(timer);
+fs.rmSync(dir, { recursive: true, force: true });
+
+console.log('\n' + '='.repeat(50));
+console.log('✅ All strict mode checks passed!');
+console.log('='.repeat(50));
+
+process.exit(0);
@@ -0,0 +1,100 @@
+#!/usr/bin/env node
+
+/**
+ * Test Transfer Codes
+ * Checks the code exchange of code-protected transfers between two Kunai peers in one process:
+ * only the id of a code is published, a wrong code opens nothing, and the sender
+ * stops answering after PAKE_MAX_ATTEMPTS guesses
+ */
+
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { randomBytes } from 'crypto';
+import fs from 'fs';
+import Gun from 'gun';
+import Kunai from './dist/kunai.js';
+
+const MAX_ATTEMPTS = 10;
+
+const timer = setTimeout(() => fail('Timed out'), 60000);
+
+function fail(reason) {
+  console.log(`  ❌ ${reason}`);
+  process.exit(1);
+}
+
+async function seen(peer, address) {
+  while (!peer.yumi.peers[address]) await new Promise((resolve) => setTimeout(resolve, 200));
+}
+
+// Reason the receive failed, or null if it succeeded
+function receiveError(peer, code) {
+  return peer.receiveFile(code, { timeout: 10000 }).then(() => null, (error) => error.message);
+}
+
+// The same code with its last word changed
+function wrongCode(code) {
+  const words = code.split('-');
+  words[words.length - 1] = words[words.length - 1] === 'alpha' ? 'bravo' : 'alpha';
+  return words.join('-');
+}
+
+console.log('🧪 Testing transfer codes...\n');
+
+const dir = fs.mkdtempSync(join(tmpdir(), 'kunai-codes-'));
+
+// One in-process graph: Gun only fires local updates with a storage, and nothing may leave the process
+const gun = Gun({ peers: [], file: join(dir, 'radata'), multicast: false, axe: false });
+const options = { gun, chunkSize: 1024 };
+const sender = new Kunai('kunai-codes-test', options);
+const receiver = new Kunai('kunai-codes-test', options);
+
+const bytes = randomBytes(3 * 1024);
+const file = { name: 'keys.bin', size: bytes.length };
+
+console.log('📡 Waiting for the peers...');
+await seen(sender, receiver.address());
+await seen(receiver, sender.address());
+console.log('  ✅ Peers connected');
+
+// Test 1: Only the id of the code reaches GunDB
+console.log('\n🔑 Sending a code-protected file...');
+const code = await sender.sendFile(file, bytes);
+const [fileId, ...words] = code.split('-');
+if (words.length !== 4) fail(`Code ${code} does not have 4 secret words`);
+const metadata = await new Promise((resolve) => receiver.yumi.channel.get('files').get(fileId).once(resolve));
+if (!metadata?.pake) fail('Transfer is not marked as code-protected');
+if (JSON.stringify(metadata).includes(words.join('-'))) fail('Code words are published with the transfer');
+console.log('  ✅ Code words are not published');
+
+// Test 2: A wrong code opens nothing, the right one still works
+console.log('\n🚫 Receiving with a wrong code...');
+const reason = await receiveError(receiver, wrongCode(code));
+if (reason !== 'Wrong transfer code') fail(`Wrong code was not refused: ${reason}`);
+console.log('  ✅ Wrong code refused');
+
+const result = await receiver.receiveFile(code, { timeout: 10000 });
+if (!Buffer.from(result.data).equals(bytes)) fail('Received file differs from the source');
+console.log('  ✅ File received with the right code');
+
+// Test 3: Every exchange is one guess, the sender stops answering after the limit
+console.log(`\n🔒 Guessing the code of another transfer ${MAX_ATTEMPTS} times...`);
+const guessed = await sender.sendFile(file, bytes);
+for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+  const error = await receiveError(receiver, wrongCode(guessed));
+  if (error !== 'Wrong transfer code') fail(`Guess ${attempt} was not refused as a wrong code: ${error}`);
+}
+console.log(`  ✅ ${MAX_ATTEMPTS} wrong guesses refused`);
+
+const locked = await receiveError(receiver, guessed);
+if (locked !== 'Too many attempts') fail(`Right code after ${MAX_ATTEMPTS} guesses was not refused: ${locked}`);
+console.log('  ✅ Right code refused once the guesses are used up');
+
+clearTimeout(timer);
+fs.rmSync(dir, { recursive: true, force: true });
+
+console.log('\n' + '='.repeat(50));
+console.log('✅ All transfer code checks passed!');
+console.log('='.repeat(50));
+
+process.exit(0);
@@ -0,0 +1,94 @@
+#!/usr/bin/env node
+
+/**
+ * Test WebRTC Transfers
+ * Sends a file between two Kunai peers in one process over a direct data channel,
+ * and checks that a third peer on the channel can neither connect nor force the upload
+ */
+
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { randomBytes } from 'crypto';
+import fs from 'fs';
+import Gun from 'gun';
+import wrtc from '@roamhq/wrtc';
+import Kunai from './dist/kunai.js';
+
+const timer = setTimeout(() => fail('Timed out'), 60000);
+
+function fail(reason) {
+  console.log(`  ❌ ${reason}`);
+  process.exit(1);
+}
+
+// Yumi never times out a call, so an unanswered one fails the test instead of hanging it
+function rpc(peer, address, call, args, timeout = 5000) {
+  return new Promise((resolve) => {
+    const timer = setTimeout(() => fail(`${call} to ${address.slice(0, 12)}... went unanswered`), timeout);
+    peer.yumi.rpc(address, call, args, (reply) => {
+      clearTimeout(timer);
+      resolve(reply);
+    });
+  });
+}
+
+async function seen(peer, address) {
+  while (!peer.yumi.peers[address]) await new Promise((resolve) => setTimeout(resolve, 200));
+}
+
+console.log('🧪 Testing WebRTC transfers...\n');
+
+const dir = fs.mkdtempSync(join(tmpdir(), 'kunai-webrtc-'));
+
+// One in-process graph: Gun only fires local updates with a storage, and nothing may leave the process
+const gun = Gun({ peers: [], file: join(dir, 'radata'), multicast: false, axe: false });
+const options = { gun, webrtc: true, rtcPeerConnection: wrtc.RTCPeerConnection };
+const sender = new Kunai('kunai-webrtc-test', options);
+const receiver = new Kunai('kunai-webrtc-test', options);
+const intruder = new Kunai('kunai-webrtc-test', options);
+
+const source = join(dir, 'source.bin');
+const destination = join(dir, 'received.bin');
+const bytes = randomBytes(200 * 1024);
+fs.writeFileSync(source, bytes);
+
+// Test 1: The peers find each other
+console.log('📡 Waiting for the peers...');
+await seen(sender, receiver.address());
+await seen(intruder, sender.address());
+console.log('  ✅ Peers connected');
+
+// Test 2: A peer without the code is refused
+console.log('\n🚫 Checking that other peers are refused...');
+const code = await sender.sendFile(source);
+const fileId = code.split('-')[0];
+
+const offer = await rpc(intruder, sender.address(), 'rtc-offer', { fileId, sdp: 'v=0' });
+if (offer?.error !== 'Not a receiver') fail(`rtc-offer from a stranger was not refused: ${JSON.stringify(offer)}`);
+console.log('  ✅ rtc-offer refused');
+
+// A well-formed bitmap acknowledging every chunk, which would otherwise start the upload and mark it done
+const ack = await rpc(intruder, sender.address(), 'chunk-ack', { fileId, base: 0, bitmap: '/'.repeat(172) });
+if (ack?.error !== 'Not a receiver') fail(`chunk-ack from a stranger was not refused: ${JSON.stringify(ack)}`);
+console.log('  ✅ chunk-ack refused');
+
+// Test 3: The receiver gets the file over WebRTC
+console.log('\n📥 Receiving the file...');
+await receiver.receiveFile(code, { destination });
+if (!fs.readFileSync(destination).equals(bytes)) fail('Received file differs from the source');
+console.log('  ✅ File received intact');
+
+const chunks = await new Promise((resolve) => gun.get('kunai-webrtc-test').get('chunks').get(fileId).once(resolve));
+if (chunks && Object.keys(chunks).some((key) => key !== '_' && chunks[key] !== null)) {
+  fail('Chunks were uploaded to GunDB');
+}
+console.log('  ✅ No chunks went through GunDB');
+
+clearTimeout(timer);
+fs.rmSync(dir, { recursive: true, force: true });
+
+console.log('\n' + '='.repeat(50));
+console.log('✅ All WebRTC checks passed!');
+console.log('='.repeat(50));
+
+process.exit(0);